@@ -2,20 +2,113 @@ import {
   AccessibilityNode,
   createAccessibilityTree,
 } from "./createAccessibilityTree";
-import { commands, type VirtualCommands } from "./commands/index";
 import {
+  type Announcement,
+  ANNOUNCEMENT_SOURCE,
+  type AnnouncementSource,
+  nodeAnnouncementSources,
+} from "./announcement";
+import {
+  ARIA_NOTIFY_PRIORITY,
+  type AriaNotifyPriority,
+  formatAriaNotifySpokenPhrase,
+  interceptAriaNotify,
+} from "./interceptAriaNotify";
+import {
+  BOUNDARY_BEHAVIOR,
+  BOUNDARY_SPOKEN_PHRASE,
+  type BoundaryBehavior,
+  getNoMatchSpokenPhrase,
+} from "./boundary";
+import {
+  coalesceLiveAnnouncements,
+  formatLiveSpokenPhrase,
+  getAddedLiveTargets,
+  getBusyElement,
+  getIsAddedLiveRegion,
+  getLiveAnnouncement,
+  getSettledLiveAnnouncement,
+  isBusyMutation,
+  LIVE,
+  type LiveAnnouncement,
+} from "./getLiveSpokenPhrase";
+import {
+  commands,
+  getQuickNavigation,
+  type VirtualCommands,
+} from "./commands/index";
+import {
+  type Diagnostic,
+  DIAGNOSTIC_CODE,
+  type DiagnosticCode,
+  diagnosticMessages,
+} from "./diagnostic";
+import {
+  type ElementsListKind,
+  getElementsListItem,
+  getElementsListNodes,
+} from "./elementsList";
+import {
+  ERR_VIRTUAL_COMMAND_BUILT_IN,
+  ERR_VIRTUAL_ELEMENT_NOT_FOUND,
   ERR_VIRTUAL_MISSING_CONTAINER,
   ERR_VIRTUAL_NOT_STARTED,
+  ERR_VIRTUAL_UNKNOWN_PROFILE,
+  VirtualNavigationError,
 } from "./errors";
-import { getLiveSpokenPhrase, LIVE } from "./getLiveSpokenPhrase";
+import {
+  getGroupEntrySpokenPhrase,
+  getGroupExitSpokenPhrase,
+  getGroupItems,
+  getGroupLastIndex,
+  isGroupRole,
+} from "./groupInteraction";
+import {
+  getKeyBindings,
+  type KeyBindingPreset,
+  type KeyBindings,
+  normalizeKey,
+} from "./keyBindings/index";
+import { getModeSpokenPhrase, isFocusModeNode, MODE, type Mode } from "./mode";
+import {
+  getSpokenPhraseContext,
+  type SpokenPhraseFormatter,
+} from "./getSpokenPhraseContext";
+import {
+  PENDING_SPEECH_POLICY,
+  type PendingSpeechPolicy,
+} from "./pendingSpeechPolicy";
+import { type Profile, type ProfileName, profiles } from "./profiles/index";
+import type {
+  VirtualCommand,
+  VirtualCommandArgs,
+  VirtualCommandResult,
+} from "./commands/types";
+import type {
+  VirtualEventHandler,
+  VirtualEventMap,
+  VirtualEventName,
+} from "./events";
+import type { AccessibilityNodeTreeMap } from "./mapAccessibilityNodeTree";
 import { flattenTree } from "./flattenTree";
+import { getAncestors } from "./getAncestors";
+import { getContainerSpokenPhrase } from "./getContainerSpokenPhrase";
+import { getCssPath } from "./getCssPath";
+import { getElementFromNode } from "./getElementFromNode";
 import { getElementNode } from "./commands/getElementNode";
+import { getFeedArticle } from "./getFeedArticle";
 import { getItemText } from "./getItemText";
 import { getSpokenPhrase } from "./getSpokenPhrase";
+import { interceptShowModal } from "./interceptShowModal";
+import { isContainerRole } from "./isContainerRole";
+import { isDialogRole } from "./isDialogRole";
+import { isElement } from "./isElement";
+import { isFocusable } from "./isFocusable";
+import { isModalDialog } from "./isModalDialog";
+import { mapAccessibilityNodeTree } from "./mapAccessibilityNodeTree";
 import { observeDOM } from "./observeDOM";
 import { tick } from "./tick";
 import { userEvent } from "@testing-library/user-event";
-import type { VirtualCommandArgs } from "./commands/types";
 
 /**
  * Modifiers ported from https://github.com/guidepup/guidepup to prevent ESM
@@ -70,6 +163,9 @@ const WindowsModifiers: Record<string, string> = {
 
 export interface Root {
   document?: Document;
+  Document?: typeof Document;
+  Element?: typeof Element;
+  HTMLDialogElement?: typeof HTMLDialogElement;
   MutationObserver?: typeof MutationObserver;
 }
 
@@ -100,30 +196,181 @@ export interface StartOptions {
    * Defaults to `false`.
    */
   displayCursor?: boolean;
+
+  /**
+   * The keys which, when pressed using `virtual.press()` in browse mode, are
+   * handled by the Virtual Screen Reader rather than being passed through to
+   * the page, e.g. `h` to move to the next heading.
+   *
+   * Either the name of a screen reader whose key bindings to use, `"nvda"` or
+   * `"jaws"`, or a map of keys to `"next"`, `"previous"` or the name of a
+   * Virtual Screen Reader command.
+   *
+   * Keys are matched however they are written, e.g. `H`, `Shift+H` and
+   * `Shift+h` are the same key, as are `Alt+Control+ArrowDown` and
+   * `Control+Alt+ArrowDown`.
+   *
+   * Defaults to the key bindings of the screen reader `profile`. No keys are
+   * bound for the `"generic"`, `"voiceover-macos"` and `"talkback"` profiles,
+   * so all keys are passed through to the page.
+   */
+  keyBindings?: KeyBindingPreset | KeyBindings;
+
+  /**
+   * The screen reader whose wording the Virtual Screen Reader should emulate
+   * in the spoken phrases, e.g. the order of the role, name and states of an
+   * item, and how leaving a container is announced.
+   *
+   * One of `"generic"`, `"nvda"`, `"jaws"`, `"voiceover-macos"` or
+   * `"talkback"`, otherwise `virtual.start()` throws.
+   *
+   * Defaults to `"generic"`.
+   */
+  profile?: ProfileName;
+
+  /**
+   * A function which returns the phrase to announce for an accessibility
+   * node, replacing the phrase the Virtual Screen Reader would announce by
+   * default when navigating, when focus moves, when leaving a container and
+   * for live region updates.
+   *
+   * The function is passed the accessibility node and a context containing
+   * the spoken role, accessible name, value and description, the map of
+   * accessible attributes to their labels, and the default `spokenPhrase`.
+   *
+   * For live region updates the node is the live region and the returned
+   * phrase is prefixed with the politeness of the update, e.g. `"polite: "`.
+   */
+  formatSpokenPhrase?: SpokenPhraseFormatter;
+
+  /**
+   * A function which returns the item text to log for an accessibility node,
+   * replacing the item text the Virtual Screen Reader would log by default.
+   *
+   * The function is passed the same arguments as `formatSpokenPhrase`.
+   */
+  formatItemText?: SpokenPhraseFormatter;
+
+  /**
+   * What happens to polite live region updates which are still waiting to be
+   * announced when the user performs an action such as `virtual.next()` or
+   * `virtual.press()`.
+   *
+   * Polite updates wait until the current announcement has finished. Either
+   * `"flush"` to announce them before responding to the action, or `"cancel"`
+   * to discard them, as most screen readers do when the user interrupts
+   * speech.
+   *
+   * Defaults to `"flush"`.
+   */
+  pendingSpeechPolicy?: PendingSpeechPolicy;
+
+  /**
+   * Only announce changes to live regions which were already present on the
+   * page, as screen readers do, so changes made to a live region as it is
+   * added to the page are not announced. A diagnostic explaining why is added
+   * to `virtual.diagnosticLog()`, including for a live region which is added
+   * with its content already inside, which is never announced.
+   *
+   * Defaults to `true` for the screen reader profiles and `false` for the
+   * `"generic"` profile.
+   */
+  strictLiveRegions?: boolean;
+
+  /**
+   * How long, in milliseconds, `virtual.next()` waits for more content to be
+   * rendered after reaching the last item of a feed, list or grid, or the end
+   * of the page.
+   *
+   * The current item is scrolled into view so that lazy loading, e.g. using
+   * an `IntersectionObserver`, and virtualised lists get the chance to render
+   * more items before the cursor moves past the end or wraps to the start.
+   *
+   * Defaults to `0`, which doesn't scroll or wait.
+   */
+  scrollToLoadTimeout?: number;
+
+  /**
+   * What happens when `virtual.next()` or `virtual.previous()` is called on
+   * the last or first item, or a quick navigation command such as
+   * `moveToNextHeading` finds no further item before the end.
+   *
+   * Either `"wrap"` to wrap around to the other end, or `"stop"` to stay on
+   * the current item.
+   *
+   * Defaults to `"wrap"`.
+   */
+  boundaryBehavior?: BoundaryBehavior;
+
+  /**
+   * Announce reaching either end and wrapping around, as screen readers do,
+   * i.e. `"wrapping to top"` or `"wrapping to bottom"` when wrapping, and
+   * `"bottom of document"`, `"top of document"` or e.g. `"no next heading"`
+   * for quick navigation when the cursor can't move.
+   *
+   * Defaults to `true` for the screen reader profiles and `false` for the
+   * `"generic"` profile.
+   */
+  announceBoundaries?: boolean;
+
+  /**
+   * Throw a `VirtualNavigationError` when `virtual.next()`,
+   * `virtual.previous()` or a quick navigation command can't move the
+   * cursor, e.g. when there is no next heading, rather than only announcing
+   * it.
+   *
+   * This stops a test which loops until an expected phrase is spoken from
+   * looping forever when the content is missing.
+   *
+   * Defaults to `false`.
+   */
+  strictNavigation?: boolean;
+
+  /**
+   * Make `virtual.interact()` on a group, such as a list, table, toolbar or
+   * landmark, move into it as VoiceOver does, so `virtual.next()` and
+   * `virtual.previous()` move between its children until
+   * `virtual.stopInteracting()` moves back out of it. Groups nested inside it
+   * are single stops until interacted with in turn.
+   *
+   * Interacting with any other item switches to focus mode.
+   *
+   * Defaults to `true` for the `"voiceover-macos"` profile and `false` for
+   * the other profiles.
+   */
+  interactWithGroups?: boolean;
+
+  /**
+   * Emulate the browse and focus modes of screen readers such as NVDA and
+   * JAWS, automatically switching to focus mode when focus moves to a widget
+   * which requires the keyboard, e.g. a textbox or menu, and back to browse
+   * mode when focus moves elsewhere, announcing `"focus mode"` or
+   * `"browse mode"` on each switch.
+   *
+   * `virtual.interact()` and `virtual.stopInteracting()` always switch mode,
+   * but only announce it when this is enabled.
+   *
+   * Defaults to `true` for the `"nvda"` and `"jaws"` profiles and `false`
+   * for the other profiles.
+   */
+  switchModes?: boolean;
+}
+
+interface LoggedAnnouncement {
+  accessibilityNode: AccessibilityNode | null;
+  itemText: string;
+  node: Node | null;
+  source: AnnouncementSource;
+  spokenPhrase: string;
 }
 
+const scrollToLoadRoles = new Set(["feed", "grid", "list"]);
+
 const defaultUserEventOptions = {
   delay: 0,
   skipHover: true,
 };
 
-/**
- * TODO: When a modal element is displayed, assistive technologies SHOULD
- * navigate to the element unless focus has explicitly been set elsewhere.
- *
- * REF: https://www.w3.org/TR/wai-aria-1.2/#aria-modal
- */
-
-/**
- * TODO: When an assistive technology reading cursor moves from one article to
- * another, assistive technologies SHOULD set user agent focus on the article
- * that contains the reading cursor. If the reading cursor lands on a focusable
- * element inside the article, the assistive technology MAY set focus on that
- * element in lieu of setting focus on the containing article.
- *
- * REF: https://www.w3.org/TR/wai-aria-1.2/#feed
- */
-
 /**
  * [API Reference](https://www.guidepup.dev/docs/api/class-virtual)
  *
@@ -202,10 +449,44 @@ export class Virtual {
   #container: Node | null = null;
   #cursor: HTMLDivElement | null = null;
   #itemTextLog: string[] = [];
-  #spokenPhraseLog: string[] = [];
+  #announcementLog: Announcement[] = [];
+  #announcementSequence = 0;
+  #diagnosticLog: Diagnostic[] = [];
+  #eventHandlers = new Map<VirtualEventName, Set<VirtualEventHandler<never>>>();
+  #customCommands = new Map<string, VirtualCommand>();
   #treeCache: AccessibilityNode[] | null = null;
+  #accessibilityNodeTreeMapCache: AccessibilityNodeTreeMap | null = null;
+  #previousAccessibilityNodeTreeMap: AccessibilityNodeTreeMap = new Map();
   #disconnectDOMObserver: (() => void) | null = null;
+  #restoreAriaNotify: (() => void) | null = null;
+  #restoreShowModal: (() => void) | null = null;
   #boundHandleFocusChange: ((event: Event) => Promise<void>) | null = null;
+  #isFocusingFeedArticle = false;
+  #mode: Mode = MODE.BROWSE;
+  #keyBindings: KeyBindings = {};
+  #profile: Profile = profiles.generic;
+  #formatItemText: SpokenPhraseFormatter | null = null;
+  #formatSpokenPhrase: SpokenPhraseFormatter | null = null;
+  #isAutomaticModeSwitchDisabled = false;
+  #pendingAnnouncements: LoggedAnnouncement[] = [];
+  #pendingAnnouncementsTimeout: ReturnType<typeof setTimeout> | null = null;
+  #pendingSpeechPolicy: PendingSpeechPolicy = PENDING_SPEECH_POLICY.FLUSH;
+  #strictLiveRegions = false;
+  #scrollToLoadTimeout = 0;
+  #boundaryBehavior: BoundaryBehavior = BOUNDARY_BEHAVIOR.WRAP;
+  #strictNavigation = false;
+  #announceBoundaries = false;
+  #interactWithGroups = false;
+  #switchModes = false;
+  #interactionGroups: Node[] = [];
+  #exitedGroup: Node | null = null;
+  #reviewOffset = 0;
+  #domChangeListeners = new Set<() => void>();
+  #userActionCount = 0;
+  #busyLiveRegions = new Map<
+    Element,
+    { busyElement: Element; live: LiveAnnouncement["live"] }
+  >();
 
   #checkContainer() {
     if (!this.#container) {
@@ -237,9 +518,43 @@ export class Virtual {
     this.#container!.appendChild(this.#cursor);
   }
 
+  #emit<T extends VirtualEventName>(eventName: T, event: VirtualEventMap[T]) {
+    this.#eventHandlers.get(eventName)?.forEach((handler) => {
+      // Handlers are called while the Virtual Screen Reader is updating its
+      // state, so a failing handler mustn't interrupt it.
+      try {
+        (handler as VirtualEventHandler<T>)(event);
+      } catch {
+        if (eventName !== "diagnostic") {
+          this.#reportDiagnostic(DIAGNOSTIC_CODE.EVENT_HANDLER_ERROR, null);
+        }
+      }
+    });
+  }
+
   #setActiveNode(accessibilityNode: AccessibilityNode) {
+    const previousAccessibilityNode = this.#activeNode;
+
     this.#activeNode = accessibilityNode;
 
+    if (previousAccessibilityNode?.node !== accessibilityNode.node) {
+      this.#reviewOffset = 0;
+      this.#exitedGroup = null;
+    }
+
+    // The tree is rebuilt after the DOM changes, so we compare the underlying
+    // node rather than the accessibility node instances.
+    if (
+      previousAccessibilityNode?.node !== accessibilityNode.node ||
+      previousAccessibilityNode?.isContainerEnd !==
+        accessibilityNode.isContainerEnd
+    ) {
+      this.#emit("cursorMove", {
+        accessibilityNode,
+        previousAccessibilityNode,
+      });
+    }
+
     if (!this.#cursor) {
       return;
     }
@@ -257,12 +572,22 @@ export class Virtual {
       const tree = createAccessibilityTree(this.#container);
 
       this.#treeCache =
-        this.#container && tree ? flattenTree(this.#container, tree, null) : [];
+        this.#container && tree
+          ? flattenTree(this.#container, tree, null, this.#profile)
+          : [];
+      this.#accessibilityNodeTreeMapCache = mapAccessibilityNodeTree(tree);
     }
 
     return this.#treeCache;
   }
 
+  #getAccessibilityNodeTreeMap() {
+    this.#getAccessibilityTree();
+
+    // The map is always populated alongside the tree cache.
+    return this.#accessibilityNodeTreeMapCache!;
+  }
+
   #getModalAccessibilityTree() {
     const tree = this.#getAccessibilityTree();
 
@@ -270,10 +595,9 @@ export class Virtual {
       return tree;
     }
 
-    const isModal =
-      this.#activeNode.parentDialog?.getAttribute("aria-modal") === "true";
+    const { parentDialog } = this.#activeNode;
 
-    if (!isModal) {
+    if (!parentDialog || !isModalDialog(parentDialog)) {
       return tree;
     }
 
@@ -290,9 +614,12 @@ export class Virtual {
 
   #invalidateTreeCache() {
     this.#treeCache = null;
+    this.#accessibilityNodeTreeMapCache = null;
   }
 
   async #handleFocusChange({ target }: Event) {
+    const isFeedArticleFocus = this.#isFocusingFeedArticle;
+
     await tick();
 
     this.#invalidateTreeCache();
@@ -310,7 +637,207 @@ export class Virtual {
       return;
     }
 
-    this.#updateState(newActiveNode, true);
+    this.#emit("focusChange", {
+      accessibilityNode: newActiveNode,
+      node: newActiveNode.node,
+    });
+
+    // Focus set on a feed article follows the cursor, so mustn't move it.
+    if (isFeedArticleFocus) {
+      return;
+    }
+
+    /**
+     * Screen readers automatically switch to focus mode when focus moves to a
+     * widget which requires the keyboard, and back to browse mode when focus
+     * moves elsewhere, unless the user has explicitly chosen to interact.
+     *
+     * REF: https://www.nvaccess.org/files/nvda/documentation/userGuide.html#BrowseMode
+     */
+    if (this.#switchModes && !this.#isAutomaticModeSwitchDisabled) {
+      this.#setMode(isFocusModeNode(newActiveNode) ? MODE.FOCUS : MODE.BROWSE);
+    }
+
+    this.#updateState(newActiveNode, {
+      ignoreIfNoChange: true,
+      source: ANNOUNCEMENT_SOURCE.FOCUS,
+    });
+  }
+
+  #setMode(mode: Mode) {
+    if (this.#mode === mode) {
+      return;
+    }
+
+    const previousMode = this.#mode;
+
+    this.#mode = mode;
+    this.#emit("modeChange", { mode, previousMode });
+
+    if (!this.#switchModes) {
+      return;
+    }
+
+    this.#logAnnouncement({
+      accessibilityNode: null,
+      itemText: "",
+      node: null,
+      source: ANNOUNCEMENT_SOURCE.MODE_CHANGE,
+      spokenPhrase: getModeSpokenPhrase(mode),
+    });
+  }
+
+  #announceBoundary(spokenPhrase: string) {
+    if (!this.#announceBoundaries) {
+      return;
+    }
+
+    this.#logAnnouncement({
+      accessibilityNode: null,
+      itemText: "",
+      node: null,
+      source: ANNOUNCEMENT_SOURCE.BOUNDARY,
+      spokenPhrase,
+    });
+  }
+
+  #failNavigation(spokenPhrase: string) {
+    this.#announceBoundary(spokenPhrase);
+
+    if (this.#strictNavigation) {
+      throw new VirtualNavigationError(spokenPhrase);
+    }
+  }
+
+  #logAnnouncement({
+    accessibilityNode,
+    itemText,
+    node,
+    source,
+    spokenPhrase,
+  }: LoggedAnnouncement) {
+    const announcement: Announcement = {
+      accessibleAttributeToLabelMap:
+        accessibilityNode?.accessibleAttributeToLabelMap ?? {},
+      accessibleDescription: accessibilityNode?.accessibleDescription ?? "",
+      accessibleName: accessibilityNode?.accessibleName ?? "",
+      accessibleValue: accessibilityNode?.accessibleValue ?? "",
+      cssPath: getCssPath(node),
+      itemText,
+      node,
+      role: accessibilityNode?.role ?? "",
+      sequence: ++this.#announcementSequence,
+      source,
+      spokenPhrase,
+    };
+
+    this.#announcementLog.push(announcement);
+    this.#emit("announcement", announcement);
+
+    if (
+      source === ANNOUNCEMENT_SOURCE.LIVE_ASSERTIVE ||
+      source === ANNOUNCEMENT_SOURCE.LIVE_POLITE
+    ) {
+      this.#emit("liveRegion", announcement);
+    }
+  }
+
+  /**
+   * When an assistive technology reading cursor moves from one article to
+   * another, assistive technologies SHOULD set user agent focus on the article
+   * that contains the reading cursor. If the reading cursor lands on a
+   * focusable element inside the article, the assistive technology MAY set
+   * focus on that element in lieu of setting focus on the containing article.
+   *
+   * REF: https://www.w3.org/TR/wai-aria-1.2/#feed
+   */
+  #focusFeedArticle(previousAccessibilityNode: AccessibilityNode | null) {
+    // Is only called following a null guard for `this.#activeNode`.
+
+    const feedArticle = getFeedArticle(this.#activeNode!);
+
+    if (
+      !feedArticle ||
+      !isElement(feedArticle) ||
+      (previousAccessibilityNode &&
+        getFeedArticle(previousAccessibilityNode) === feedArticle)
+    ) {
+      return;
+    }
+
+    const cursorElement = getElementNode(this.#activeNode!);
+
+    const target = [
+      cursorElement,
+      feedArticle,
+      ...Array.from(feedArticle.querySelectorAll<HTMLElement>("*")),
+    ].find((element) => feedArticle.contains(element) && isFocusable(element));
+
+    if (!target) {
+      return;
+    }
+
+    this.#isFocusingFeedArticle = true;
+    target.focus();
+    this.#isFocusingFeedArticle = false;
+  }
+
+  #waitForDOMChange(timeout: number) {
+    return new Promise<void>((resolve) => {
+      const listener = () => {
+        clearTimeout(timeoutId);
+        this.#domChangeListeners.delete(listener);
+        resolve();
+      };
+
+      const timeoutId = setTimeout(listener, timeout);
+
+      this.#domChangeListeners.add(listener);
+    });
+  }
+
+  /**
+   * Lazy loading and virtualised lists render more items as the last of them
+   * is scrolled into view, so before the cursor moves past the end of a feed,
+   * list or grid, or wraps to the start, the current item is scrolled into
+   * view and we wait for any content which this loads.
+   */
+  async #scrollToLoadMore() {
+    if (!this.#scrollToLoadTimeout || !this.#activeNode) {
+      return;
+    }
+
+    const tree = this.#getModalAccessibilityTree();
+    const currentIndex = this.#getCurrentIndex(tree);
+
+    if (currentIndex === -1 || tree[currentIndex].isContainerEnd) {
+      return;
+    }
+
+    // The containers which the cursor will leave before reaching the next
+    // item, if there is one.
+    const followingNodes = tree.slice(currentIndex + 1);
+    const nextItemIndex = followingNodes.findIndex(
+      ({ isContainerEnd }) => !isContainerEnd
+    );
+    const exitedContainerEnds =
+      nextItemIndex === -1
+        ? followingNodes
+        : followingNodes.slice(0, nextItemIndex);
+
+    const isAtEnd =
+      nextItemIndex === -1 ||
+      exitedContainerEnds.some(({ role }) => scrollToLoadRoles.has(role));
+
+    if (!isAtEnd) {
+      return;
+    }
+
+    const domChange = this.#waitForDOMChange(this.#scrollToLoadTimeout);
+
+    getElementNode(this.#activeNode).scrollIntoView?.();
+
+    await domChange;
   }
 
   #focusActiveElement() {
@@ -321,32 +848,505 @@ export class Virtual {
   }
 
   async #announceLiveRegions(mutations: MutationRecord[]) {
-    await tick();
-
     const container = this.#container;
+    const accessibilityNodeTreeMap = this.#getAccessibilityNodeTreeMap();
+    const previousAccessibilityNodeTreeMap =
+      this.#previousAccessibilityNodeTreeMap;
+    const addedLiveTargets = new Set<Element>();
+    const liveAnnouncementsByLiveTarget = new Map<
+      Element,
+      LiveAnnouncement[]
+    >();
+
+    const addLiveAnnouncement = (liveAnnouncement: LiveAnnouncement) => {
+      const { liveTarget } = liveAnnouncement;
+
+      liveAnnouncementsByLiveTarget.set(liveTarget, [
+        ...(liveAnnouncementsByLiveTarget.get(liveTarget) ?? []),
+        liveAnnouncement,
+      ]);
+    };
+
+    mutations.forEach((mutation, index) => {
+      const laterMutations = mutations.slice(index + 1);
+
+      if (isBusyMutation(mutation)) {
+        this.#getSettledLiveAnnouncements(
+          mutation.target as Element,
+          laterMutations
+        ).forEach(addLiveAnnouncement);
+
+        return;
+      }
 
-    mutations
-      .map((mutation) =>
-        getLiveSpokenPhrase({
-          container,
-          mutation,
+      const liveAnnouncement = getLiveAnnouncement({
+        accessibilityNodeTreeMap,
+        mutation,
+      });
+
+      if (!liveAnnouncement) {
+        if (this.#strictLiveRegions) {
+          getAddedLiveTargets({ accessibilityNodeTreeMap, mutation }).forEach(
+            (liveTarget) => addedLiveTargets.add(liveTarget)
+          );
+        }
+
+        return;
+      }
+
+      const { liveTarget } = liveAnnouncement;
+
+      if (
+        this.#strictLiveRegions &&
+        getIsAddedLiveRegion({
+          liveTarget,
+          mutations,
+          previousAccessibilityNodeTreeMap,
         })
+      ) {
+        addedLiveTargets.add(liveTarget);
+
+        return;
+      }
+
+      const busyElement = getBusyElement({
+        container,
+        laterMutations,
+        node: mutation.target,
+      });
+
+      if (
+        busyElement &&
+        !this.#getIsReadingBusyFeedArticle(busyElement, mutation.target)
+      ) {
+        this.#busyLiveRegions.set(liveAnnouncement.liveTarget, {
+          busyElement,
+          live: liveAnnouncement.live,
+        });
+
+        return;
+      }
+
+      addLiveAnnouncement(liveAnnouncement);
+    });
+
+    this.#previousAccessibilityNodeTreeMap = accessibilityNodeTreeMap;
+
+    // The live regions are resolved as the page was at the end of the batch of
+    // mutations, but are announced once any other handlers have run.
+    await tick();
+
+    addedLiveTargets.forEach((liveTarget) =>
+      this.#reportDiagnostic(
+        DIAGNOSTIC_CODE.LIVE_REGION_ADDED_WITH_CONTENT,
+        liveTarget
+      )
+    );
+
+    liveAnnouncementsByLiveTarget.forEach((liveAnnouncements) =>
+      this.#announceLiveRegion(coalesceLiveAnnouncements(liveAnnouncements))
+    );
+  }
+
+  /**
+   * When a modal element is displayed, assistive technologies SHOULD navigate
+   * to the element unless focus has explicitly been set elsewhere.
+   *
+   * REF: https://www.w3.org/TR/wai-aria-1.2/#aria-modal
+   */
+  #moveToDisplayedModalDialog(
+    previousAccessibilityNodeTreeMap: AccessibilityNodeTreeMap
+  ) {
+    const displayedModalDialogs = [
+      ...this.#getAccessibilityNodeTreeMap().entries(),
+    ]
+      .filter(
+        ([node, { accessibilityNodeTree }]) =>
+          !previousAccessibilityNodeTreeMap.has(node) &&
+          isElement(node) &&
+          isDialogRole(accessibilityNodeTree.role) &&
+          isModalDialog(node)
       )
-      .filter(Boolean)
-      .forEach((spokenPhrase) => {
-        this.#spokenPhraseLog.push(spokenPhrase);
+      .map(([node]) => node);
+
+    if (!displayedModalDialogs.length) {
+      return;
+    }
+
+    // Mutation observers are notified after the task which displayed the
+    // dialog, so any focus the page set alongside it has already moved.
+    const dialog = displayedModalDialogs.at(-1)!;
+    const activeElement = dialog.ownerDocument?.activeElement;
+
+    if (
+      !this.#activeNode ||
+      this.#activeNode.parentDialog === dialog ||
+      (activeElement && dialog.contains(activeElement))
+    ) {
+      return;
+    }
+
+    const tree = this.#getAccessibilityTree();
+    const dialogIndex = tree.findIndex(({ node }) => node === dialog);
+
+    if (dialogIndex === -1) {
+      return;
+    }
+
+    // The dialog is announced on entering it, so we move to its first item
+    // rather than repeating the dialog itself.
+    const firstDialogItem = tree[dialogIndex + 1];
+    const newActiveNode =
+      firstDialogItem?.parentDialog === dialog &&
+      !firstDialogItem.isContainerEnd
+        ? firstDialogItem
+        : tree[dialogIndex];
+
+    this.#updateState(newActiveNode);
+  }
+
+  #reportDiagnostic(code: DiagnosticCode, node: Node | null) {
+    const diagnostic: Diagnostic = {
+      code,
+      cssPath: getCssPath(node),
+      message: diagnosticMessages[code],
+      node,
+    };
+
+    this.#diagnosticLog.push(diagnostic);
+    this.#emit("diagnostic", diagnostic);
+  }
+
+  #getSettledLiveAnnouncements(
+    element: Element,
+    laterMutations: MutationRecord[]
+  ) {
+    const container = this.#container;
+    const liveAnnouncements: LiveAnnouncement[] = [];
+
+    this.#busyLiveRegions.forEach(({ busyElement, live }, liveTarget) => {
+      if (busyElement !== element) {
+        return;
+      }
+
+      // The live region may still be within another busy element.
+      const nextBusyElement = getBusyElement({
+        container,
+        laterMutations,
+        node: liveTarget,
       });
+
+      if (nextBusyElement) {
+        this.#busyLiveRegions.set(liveTarget, {
+          busyElement: nextBusyElement,
+          live,
+        });
+
+        return;
+      }
+
+      this.#busyLiveRegions.delete(liveTarget);
+
+      const liveAnnouncement = getSettledLiveAnnouncement({
+        accessibilityNodeTreeMap: this.#getAccessibilityNodeTreeMap(),
+        live,
+        liveTarget,
+      });
+
+      if (liveAnnouncement) {
+        liveAnnouncements.push(liveAnnouncement);
+      }
+    });
+
+    return liveAnnouncements;
   }
 
-  #spokenPhraseLogWithoutLiveRegions() {
-    return this.#spokenPhraseLog.filter(
-      (spokenPhrase) =>
-        !spokenPhrase.startsWith(LIVE.ASSERTIVE) &&
-        !spokenPhrase.startsWith(LIVE.POLITE)
+  /**
+   * When a feed is busy while articles are added or removed, the article the
+   * user is reading is exempt so that updates to it are not held back.
+   *
+   * REF: https://www.w3.org/TR/wai-aria-1.2/#feed
+   */
+  #getIsReadingBusyFeedArticle(busyElement: Element, target: Node) {
+    if (!this.#activeNode) {
+      return false;
+    }
+
+    const tree = this.#getAccessibilityTree();
+    const busyAccessibilityNode = tree.find(({ node }) => node === busyElement);
+
+    if (busyAccessibilityNode?.role !== "feed") {
+      return false;
+    }
+
+    const readingArticle = [
+      ...getAncestors(this.#activeNode),
+      this.#activeNode,
+    ].findLast(({ role }) => role === "article");
+
+    return (
+      !!readingArticle &&
+      busyElement.contains(readingArticle.node) &&
+      readingArticle.node.contains(target)
+    );
+  }
+
+  #announceLiveRegion(liveAnnouncement: LiveAnnouncement) {
+    const { live, liveTarget } = liveAnnouncement;
+    const liveAccessibilityNode =
+      this.#getAccessibilityTree().find(({ node }) => node === liveTarget) ??
+      null;
+
+    const announcement: LoggedAnnouncement = {
+      accessibilityNode: liveAccessibilityNode,
+      itemText: "",
+      node: liveTarget,
+      source:
+        live === LIVE.ASSERTIVE
+          ? ANNOUNCEMENT_SOURCE.LIVE_ASSERTIVE
+          : ANNOUNCEMENT_SOURCE.LIVE_POLITE,
+      spokenPhrase: formatLiveSpokenPhrase({
+        live,
+        spokenPhrase: this.#formatLiveAnnouncement(
+          liveAnnouncement,
+          liveAccessibilityNode
+        ),
+      }),
+    };
+
+    this.#announceNotification(announcement, live === LIVE.ASSERTIVE);
+  }
+
+  #announceAriaNotification(
+    node: Node,
+    announcement: string,
+    priority: AriaNotifyPriority
+  ) {
+    const container = this.#container;
+
+    if (
+      !container ||
+      (node !== container.ownerDocument && !container.contains(node))
+    ) {
+      return;
+    }
+
+    const accessibilityNode =
+      this.#getAccessibilityTree().find(
+        ({ node: treeNode }) => treeNode === node
+      ) ?? null;
+
+    this.#announceNotification(
+      {
+        accessibilityNode,
+        itemText: "",
+        node: isElement(node) ? node : null,
+        source:
+          priority === ARIA_NOTIFY_PRIORITY.HIGH
+            ? ANNOUNCEMENT_SOURCE.NOTIFY_HIGH
+            : ANNOUNCEMENT_SOURCE.NOTIFY_NORMAL,
+        spokenPhrase: formatAriaNotifySpokenPhrase({ announcement, priority }),
+      },
+      priority === ARIA_NOTIFY_PRIORITY.HIGH
+    );
+  }
+
+  #announceNotification(
+    announcement: LoggedAnnouncement,
+    isAssertive: boolean
+  ) {
+    /**
+     * When live regions are marked as assertive, assistive technologies
+     * SHOULD notify the user immediately. User agents or assistive
+     * technologies MAY choose to clear queued changes when an assertive
+     * change occurs.
+     *
+     * REF: https://www.w3.org/TR/wai-aria-1.1/#aria-live
+     */
+    if (isAssertive) {
+      this.#cancelPendingAnnouncements();
+      this.#logAnnouncement(announcement);
+
+      return;
+    }
+
+    this.#queueAnnouncement(announcement);
+  }
+
+  /**
+   * Polite live region updates are announced at the next graceful
+   * opportunity, which for the Virtual Screen Reader is once the current
+   * announcement or user action has finished.
+   */
+  #queueAnnouncement(announcement: LoggedAnnouncement) {
+    this.#pendingAnnouncements.push(announcement);
+    this.#schedulePendingAnnouncements();
+  }
+
+  #schedulePendingAnnouncements() {
+    if (
+      this.#pendingAnnouncementsTimeout !== null ||
+      !this.#pendingAnnouncements.length
+    ) {
+      return;
+    }
+
+    this.#pendingAnnouncementsTimeout = setTimeout(() => {
+      this.#pendingAnnouncementsTimeout = null;
+
+      // The user action will either flush or cancel the pending announcements
+      // once it has finished.
+      if (this.#userActionCount) {
+        return;
+      }
+
+      this.#flushPendingAnnouncements();
+    });
+  }
+
+  #flushPendingAnnouncements() {
+    const pendingAnnouncements = this.#pendingAnnouncements;
+
+    this.#cancelPendingAnnouncements();
+    pendingAnnouncements.forEach((announcement) =>
+      this.#logAnnouncement(announcement)
+    );
+  }
+
+  #cancelPendingAnnouncements() {
+    if (this.#pendingAnnouncementsTimeout !== null) {
+      clearTimeout(this.#pendingAnnouncementsTimeout);
+    }
+
+    this.#pendingAnnouncements = [];
+    this.#pendingAnnouncementsTimeout = null;
+  }
+
+  /**
+   * User actions interrupt speech, so any pending polite live region updates
+   * are either announced or cancelled before responding to the action.
+   */
+  async #handleUserAction() {
+    this.#userActionCount++;
+    await tick();
+    this.#userActionCount--;
+
+    if (this.#pendingSpeechPolicy === PENDING_SPEECH_POLICY.CANCEL) {
+      this.#cancelPendingAnnouncements();
+
+      return;
+    }
+
+    this.#flushPendingAnnouncements();
+  }
+
+  async #dispatchUserEvent(dispatch: () => Promise<unknown>) {
+    this.#userActionCount++;
+
+    try {
+      await dispatch();
+    } finally {
+      this.#userActionCount--;
+      this.#schedulePendingAnnouncements();
+    }
+  }
+
+  #formatLiveAnnouncement(
+    { live, spokenPhrase }: LiveAnnouncement,
+    liveAccessibilityNode: AccessibilityNode | null
+  ) {
+    if (!this.#formatSpokenPhrase || !liveAccessibilityNode) {
+      return spokenPhrase;
+    }
+
+    return this.#formatSpokenPhrase(
+      liveAccessibilityNode,
+      getSpokenPhraseContext({
+        accessibilityNode: liveAccessibilityNode,
+        itemText: getItemText(liveAccessibilityNode),
+        live,
+        spokenPhrase,
+      })
+    );
+  }
+
+  #getLastNodeAnnouncement() {
+    return this.#announcementLog.findLast(({ source }) =>
+      nodeAnnouncementSources.has(source)
     );
   }
 
-  #updateState(accessibilityNode: AccessibilityNode, ignoreIfNoChange = false) {
+  #formatAnnouncement(
+    accessibilityNode: AccessibilityNode,
+    spokenPhrase: string
+  ) {
+    const itemText = getItemText(accessibilityNode);
+
+    if (!this.#formatItemText && !this.#formatSpokenPhrase) {
+      return { itemText, spokenPhrase };
+    }
+
+    const context = getSpokenPhraseContext({
+      accessibilityNode,
+      itemText,
+      spokenPhrase,
+    });
+
+    return {
+      itemText: this.#formatItemText?.(accessibilityNode, context) ?? itemText,
+      spokenPhrase:
+        this.#formatSpokenPhrase?.(accessibilityNode, context) ?? spokenPhrase,
+    };
+  }
+
+  #announceNode(
+    accessibilityNode: AccessibilityNode,
+    spokenPhrase: string,
+    source: AnnouncementSource
+  ) {
+    this.#announce({
+      ...this.#formatAnnouncement(accessibilityNode, spokenPhrase),
+      accessibilityNode,
+      source,
+    });
+  }
+
+  #announce({
+    accessibilityNode,
+    itemText,
+    source,
+    spokenPhrase,
+  }: {
+    accessibilityNode: AccessibilityNode;
+    itemText: string;
+    source: AnnouncementSource;
+    spokenPhrase: string;
+  }) {
+    this.#itemTextLog.push(itemText);
+    this.#logAnnouncement({
+      accessibilityNode,
+      itemText,
+      node: accessibilityNode.node,
+      source,
+      spokenPhrase,
+    });
+  }
+
+  #announceEnteredContainers(accessibilityNode: AccessibilityNode) {
+    const tree = this.#getAccessibilityTree();
+    const ancestors = getAncestors(accessibilityNode);
+
+    // The cursor is considered to already be within the node it is on as well
+    // as all of that node's ancestors.
+    const previousNodes = new Set(
+      this.#activeNode
+        ? [
+            this.#activeNode.node,
+            ...getAncestors(this.#activeNode).map(({ node }) => node),
+          ]
+        : []
+    );
+
     /**
      * When the dialog is correctly labeled and focus is moved to an element
      * (often an interactive element, such as a button) inside the dialog,
@@ -355,44 +1355,107 @@ export class Virtual {
      *
      * REF: https://developer.mozilla.org/en-US/docs/Web/Accessibility/ARIA/Roles/dialog_role#possible_effects_on_user_agents_and_assistive_technology
      */
-    if (
+    let isPendingDialogAnnouncement =
       accessibilityNode.parentDialog !== null &&
-      accessibilityNode.parentDialog !== this.#activeNode?.parentDialog
-    ) {
-      // One of the few cases where you will get two logs for a single
-      // interaction.
-      //
-      // We don't need to perform the `ignoreIfNoChange` check as this will
-      // only fire if the parent dialog element has changed, and if that
-      // happens we can be fairly confident that item under the virtual
-      // cursor has changed.
-      const tree = this.#getAccessibilityTree();
+      accessibilityNode.parentDialog !== this.#activeNode?.parentDialog;
+
+    const announceDialog = () => {
       const parentDialogNode = tree.find(
         ({ node }) => node === accessibilityNode.parentDialog
       )!;
 
-      const spokenPhrase = getSpokenPhrase(parentDialogNode);
-      const itemText = getItemText(parentDialogNode);
+      this.#announceNode(
+        parentDialogNode,
+        getSpokenPhrase(parentDialogNode, this.#profile),
+        ANNOUNCEMENT_SOURCE.DIALOG_ENTRY
+      );
+      isPendingDialogAnnouncement = false;
+    };
+
+    // Containers are announced from the outermost inwards, as if the user
+    // had walked into each of them in turn.
+    ancestors.forEach((ancestor) => {
+      if (
+        isPendingDialogAnnouncement &&
+        ancestor.node === accessibilityNode.parentDialog
+      ) {
+        announceDialog();
+
+        return;
+      }
+
+      if (!isContainerRole(ancestor.role) || previousNodes.has(ancestor.node)) {
+        return;
+      }
+
+      const containerNode = tree.find(({ node }) => node === ancestor.node);
+
+      if (!containerNode) {
+        return;
+      }
 
-      this.#itemTextLog.push(itemText);
-      this.#spokenPhraseLog.push(spokenPhrase);
+      this.#announceNode(
+        containerNode,
+        getContainerSpokenPhrase({
+          accessibilityNode: containerNode,
+          profile: this.#profile,
+          tree: ancestor,
+        }),
+        ANNOUNCEMENT_SOURCE.CONTAINER_ENTRY
+      );
+    });
+
+    // A dialog is its own parent dialog, in which case it won't be amongst
+    // its ancestors.
+    if (isPendingDialogAnnouncement) {
+      announceDialog();
     }
+  }
+
+  #updateState(
+    accessibilityNode: AccessibilityNode,
+    {
+      ignoreIfNoChange = false,
+      source = ANNOUNCEMENT_SOURCE.NAVIGATION,
+      spokenPhrase = getSpokenPhrase(accessibilityNode, this.#profile),
+    }: {
+      ignoreIfNoChange?: boolean;
+      source?: AnnouncementSource;
+      spokenPhrase?: string;
+    } = {}
+  ) {
+    // One of the few cases where you will get several logs for a single
+    // interaction.
+    //
+    // We don't need to perform the `ignoreIfNoChange` check as this will only
+    // announce anything if the containers around the cursor have changed,
+    // and if that happens we can be fairly confident that item under the
+    // virtual cursor has changed.
+    this.#announceEnteredContainers(accessibilityNode);
 
     this.#setActiveNode(accessibilityNode);
 
-    const spokenPhrase = getSpokenPhrase(accessibilityNode);
-    const itemText = getItemText(accessibilityNode);
+    const announcement = this.#formatAnnouncement(
+      accessibilityNode,
+      spokenPhrase
+    );
 
     if (
       ignoreIfNoChange &&
-      spokenPhrase === this.#spokenPhraseLogWithoutLiveRegions().at(-1) &&
-      itemText === this.#itemTextLog.at(-1)
+      announcement.spokenPhrase ===
+        this.#getLastNodeAnnouncement()?.spokenPhrase &&
+      announcement.itemText === this.#itemTextLog.at(-1)
     ) {
       return;
     }
 
-    this.#itemTextLog.push(itemText);
-    this.#spokenPhraseLog.push(spokenPhrase);
+    this.#announce({
+      ...announcement,
+      accessibilityNode,
+      source: accessibilityNode.isContainerEnd
+        ? ANNOUNCEMENT_SOURCE.CONTAINER_EXIT
+        : source,
+    });
   }
 
   async #refreshState(ignoreIfNoChange: boolean) {
@@ -408,7 +1471,110 @@ export class Virtual {
 
     const newActiveNode = tree.at(currentIndex)!;
 
-    this.#updateState(newActiveNode, ignoreIfNoChange);
+    this.#updateState(newActiveNode, {
+      ignoreIfNoChange,
+      source: ANNOUNCEMENT_SOURCE.FOCUS,
+    });
+  }
+
+  #getGroupItems(tree: AccessibilityNode[]) {
+    const group = this.#interactionGroups.at(-1);
+
+    if (!group) {
+      return null;
+    }
+
+    const groupItems = getGroupItems({ group, tree });
+
+    // Moving the cursor out of the group by other means, or the group being
+    // removed from the page, ends the interaction.
+    if (this.#getCurrentIndexByNode(groupItems) === -1) {
+      this.#interactionGroups = [];
+
+      return null;
+    }
+
+    return groupItems;
+  }
+
+  #moveWithinGroup(groupItems: AccessibilityNode[], step: 1 | -1) {
+    const nextIndex = this.#getCurrentIndexByNode(groupItems) + step;
+
+    // VoiceOver doesn't move past the first or last child of the group being
+    // interacted with.
+    if (nextIndex < 0 || nextIndex >= groupItems.length) {
+      return;
+    }
+
+    const previousAccessibilityNode = this.#activeNode;
+
+    this.#updateState(groupItems[nextIndex]);
+    this.#focusFeedArticle(previousAccessibilityNode);
+  }
+
+  #interactWithGroup() {
+    if (!this.#interactWithGroups || !this.#activeNode) {
+      return false;
+    }
+
+    const { node: group, role } = this.#activeNode;
+
+    if (!isGroupRole(role)) {
+      return false;
+    }
+
+    const tree = this.#getModalAccessibilityTree();
+    const groupNode = tree.find(
+      ({ isContainerEnd, node }) => !isContainerEnd && node === group
+    );
+    const firstItem = getGroupItems({ group, tree }).at(0);
+
+    if (!groupNode || !firstItem) {
+      return false;
+    }
+
+    this.#interactionGroups.push(group);
+    this.#announceNode(
+      groupNode,
+      getGroupEntrySpokenPhrase(getSpokenPhrase(groupNode, this.#profile)),
+      ANNOUNCEMENT_SOURCE.CONTAINER_ENTRY
+    );
+
+    const previousAccessibilityNode = this.#activeNode;
+
+    this.#updateState(firstItem);
+    this.#focusFeedArticle(previousAccessibilityNode);
+
+    return true;
+  }
+
+  #stopInteractingWithGroup() {
+    const tree = this.#getModalAccessibilityTree();
+
+    if (!this.#getGroupItems(tree)) {
+      return false;
+    }
+
+    // The group is an ancestor of the item in the cursor, so is in the tree.
+    const group = this.#interactionGroups.pop()!;
+    const groupNode = tree.find(
+      ({ isContainerEnd, node }) => !isContainerEnd && node === group
+    )!;
+
+    this.#announceNode(
+      groupNode,
+      getGroupExitSpokenPhrase(getSpokenPhrase(groupNode, this.#profile)),
+      ANNOUNCEMENT_SOURCE.CONTAINER_EXIT
+    );
+    this.#updateState(groupNode);
+
+    // The group just left is a single stop for the next move, as it is for
+    // the items of a group which is still being interacted with.
+    if (!this.#interactionGroups.length) {
+      this.#exitedGroup = group;
+    }
+
+    return true;
   }
 
   #getCurrentIndex(tree: AccessibilityNode[]) {
@@ -465,34 +1631,217 @@ export class Virtual {
     return this.#activeNode?.node ?? null;
   }
 
+  /**
+   * Getter for the current mode of the Virtual Screen Reader.
+   *
+   * - `"browse"` - keys with a screen reader binding, such as `ArrowDown`,
+   *   are handled by the Virtual Screen Reader. All other keys are passed
+   *   through to the page.
+   * - `"focus"` - all keys are passed through to the page.
+   *
+   * The mode automatically switches to focus mode when focus moves to a
+   * widget which requires the keyboard, such as a textbox, combobox, grid or
+   * an element with the `application` role, and back to browse mode when
+   * focus moves elsewhere, when enabled using the `switchModes` option.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Log the current mode.
+   *   console.log(virtual.mode);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   *
+   * @returns {"browse"|"focus"}
+   */
+  get mode() {
+    return this.#mode;
+  }
+
+  /**
+   * Add a handler which is called whenever an event occurs in the Virtual
+   * Screen Reader:
+   *
+   * - `"announcement"` - an announcement is made, passing the announcement.
+   * - `"cursorMove"` - the Virtual Screen Reader cursor moves, passing the
+   *   accessibility nodes moved from and to.
+   * - `"diagnostic"` - a diagnostic is added to `virtual.diagnosticLog()`,
+   *   passing the diagnostic with its `code`, `message`, `node` and `cssPath`.
+   * - `"focusChange"` - focus moves to an element, passing the element and
+   *   its accessibility node.
+   * - `"liveRegion"` - a live region update is announced, passing the
+   *   announcement.
+   * - `"modeChange"` - the Virtual Screen Reader switches between browse and
+   *   focus mode, passing the modes switched from and to.
+   *
+   * Handlers are kept when the Virtual Screen Reader is stopped, use
+   * `virtual.off()` to remove them. Errors thrown by a handler are ignored,
+   * adding a diagnostic to `virtual.diagnosticLog()` instead. Errors thrown by
+   * a `"diagnostic"` handler are ignored without adding a diagnostic, as that
+   * would call the handler again.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Log every announcement as it happens.
+   *   const logAnnouncement = ({ spokenPhrase }) => console.log(spokenPhrase);
+   *   virtual.on("announcement", logAnnouncement);
+   *
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Move to the next item.
+   *   await virtual.next();
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   *
+   *   // Stop logging announcements.
+   *   virtual.off("announcement", logAnnouncement);
+   * });
+   * ```
+   *
+   * @param {string} eventName The name of the event to handle.
+   * @param {Function} handler The function to call when the event occurs.
+   */
+  on<T extends VirtualEventName>(
+    eventName: T,
+    handler: VirtualEventHandler<T>
+  ) {
+    const handlers = this.#eventHandlers.get(eventName) ?? new Set();
+
+    handlers.add(handler);
+    this.#eventHandlers.set(eventName, handlers);
+  }
+
+  /**
+   * Remove a handler previously added with `virtual.on()`.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   const handleModeChange = ({ mode }) => console.log(mode);
+   *   virtual.on("modeChange", handleModeChange);
+   *
+   *   // ... perform some commands.
+   *
+   *   // Stop handling mode changes.
+   *   virtual.off("modeChange", handleModeChange);
+   * });
+   * ```
+   *
+   * @param {string} eventName The name of the event.
+   * @param {Function} handler The function previously added for the event.
+   */
+  off<T extends VirtualEventName>(
+    eventName: T,
+    handler: VirtualEventHandler<T>
+  ) {
+    this.#eventHandlers.get(eventName)?.delete(handler);
+  }
+
   /**
    * [API Reference](https://www.guidepup.dev/docs/api/class-virtual#virtual-commands)
    *
    * Getter for all Virtual Screen Reader commands.
    *
-   * Use with the `await virtual.perform(command)` command to invoke an action:
+   * Use with the `await virtual.perform(command)` command to invoke an action:
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the next landmark.
+   *   await virtual.perform(virtual.commands.moveToNextLandmark);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  get commands() {
+    return Object.fromEntries<keyof VirtualCommands>(
+      (
+        [
+          ...Object.keys(commands),
+          ...this.#customCommands.keys(),
+        ] as (keyof VirtualCommands)[]
+      ).map((command: keyof VirtualCommands) => [command, command])
+    ) as { [K in keyof VirtualCommands]: K };
+  }
+
+  /**
+   * Register a custom command which can then be invoked using
+   * `await virtual.perform(command)`, e.g. for product specific navigation.
+   *
+   * A command is passed the accessibility tree and the index of the cursor in
+   * it along with any options passed to `virtual.perform()`. It returns the
+   * index of the node to move the cursor to, or a result which can also
+   * include phrases to announce, a node to focus or a mode to switch to.
+   *
+   * Augment the `VirtualCustomCommands` interface to type check
+   * `virtual.perform()` for the command.
    *
    * ```ts
    * import { virtual } from "@guidepup/virtual-screen-reader";
    *
    * test("example test", async () => {
+   *   // Register a command which moves to the next card.
+   *   virtual.registerCommand("moveToNextCard", ({ currentIndex, tree }) => {
+   *     const index = tree.findIndex(
+   *       ({ node }, index) =>
+   *         index > currentIndex &&
+   *         node instanceof Element &&
+   *         node.classList.contains("card")
+   *     );
+   *
+   *     return index === -1 ? null : index;
+   *   });
+   *
    *   // Start the Virtual Screen Reader.
    *   await virtual.start({ container: document.body });
    *
-   *   // Perform action to move to the next landmark.
-   *   await virtual.perform(virtual.commands.moveToNextLandmark);
+   *   // Perform action to move to the next card.
+   *   await virtual.perform("moveToNextCard");
    *
    *   // Stop the Virtual Screen Reader.
    *   await virtual.stop();
    * });
    * ```
+   *
+   * @param {string} name The name of the command.
+   * @param {Function} command The command.
+   * @returns {Function} A function which unregisters the command.
    */
-  get commands() {
-    return Object.fromEntries<keyof VirtualCommands>(
-      (Object.keys(commands) as (keyof VirtualCommands)[]).map(
-        (command: keyof VirtualCommands) => [command, command]
-      )
-    ) as { [K in keyof VirtualCommands]: K };
+  registerCommand<T extends string>(
+    name: T,
+    command: T extends keyof VirtualCommands
+      ? VirtualCommands[T]
+      : VirtualCommand
+  ) {
+    if (Object.prototype.hasOwnProperty.call(commands, name)) {
+      throw new Error(ERR_VIRTUAL_COMMAND_BUILT_IN);
+    }
+
+    this.#customCommands.set(name, command as VirtualCommand);
+
+    return () => {
+      if (this.#customCommands.get(name) === command) {
+        this.#customCommands.delete(name);
+      }
+    };
   }
 
   /**
@@ -548,6 +1897,13 @@ export class Virtual {
    *
    * This must be called before any other Virtual command can be issued.
    *
+   * While the Virtual Screen Reader is on, messages passed to
+   * `element.ariaNotify()` or `document.ariaNotify()` are announced, prefixed
+   * with their priority, e.g. `"normal: Saved"`.
+   *
+   * `<dialog>` elements are only treated as modal when opened with
+   * `dialog.showModal()` while the Virtual Screen Reader is on.
+   *
    * ```ts
    * import { virtual } from "@guidepup/virtual-screen-reader";
    *
@@ -568,7 +1924,23 @@ export class Virtual {
   // @ts-ignore for non-TS users we default the container to `null` which
   // prompts the missing container error.
   async start(
-    { container, displayCursor = false, window: root }: StartOptions = {
+    {
+      announceBoundaries,
+      boundaryBehavior = BOUNDARY_BEHAVIOR.WRAP,
+      container,
+      displayCursor = false,
+      formatItemText,
+      formatSpokenPhrase,
+      interactWithGroups,
+      keyBindings,
+      pendingSpeechPolicy = PENDING_SPEECH_POLICY.FLUSH,
+      profile = "generic",
+      scrollToLoadTimeout = 0,
+      strictLiveRegions,
+      strictNavigation = false,
+      switchModes,
+      window: root,
+    }: StartOptions = {
       container: null as never,
       displayCursor: false,
     }
@@ -577,11 +1949,35 @@ export class Virtual {
       throw new Error(ERR_VIRTUAL_MISSING_CONTAINER);
     }
 
+    // Guards against an unknown profile name from JavaScript users.
+    if (!Object.prototype.hasOwnProperty.call(profiles, profile)) {
+      throw new Error(
+        `${ERR_VIRTUAL_UNKNOWN_PROFILE}: ${Object.keys(profiles).join(", ")}`
+      );
+    }
+
     if (!root && typeof window !== "undefined") {
       root = window;
     }
 
     this.#container = container;
+    this.#profile = profiles[profile];
+    this.#formatItemText = formatItemText ?? null;
+    this.#formatSpokenPhrase = formatSpokenPhrase ?? null;
+    this.#pendingSpeechPolicy = pendingSpeechPolicy;
+    this.#strictLiveRegions =
+      strictLiveRegions ?? this.#profile.strictLiveRegions;
+    this.#scrollToLoadTimeout = scrollToLoadTimeout;
+    this.#boundaryBehavior = boundaryBehavior;
+    this.#strictNavigation = strictNavigation;
+    this.#announceBoundaries =
+      announceBoundaries ?? this.#profile.announceBoundaries;
+    this.#interactWithGroups =
+      interactWithGroups ?? this.#profile.interactWithGroups;
+    this.#keyBindings = getKeyBindings(
+      keyBindings ?? this.#profile.keyBindings
+    );
+    this.#switchModes = switchModes ?? this.#profile.switchModes;
 
     if (displayCursor) {
       this.#createCursor(root);
@@ -591,13 +1987,29 @@ export class Virtual {
       root,
       container,
       (mutations: MutationRecord[]) => {
+        const previousAccessibilityNodeTreeMap =
+          this.#previousAccessibilityNodeTreeMap;
+
         this.#invalidateTreeCache();
         this.#announceLiveRegions(mutations);
+        this.#moveToDisplayedModalDialog(previousAccessibilityNodeTreeMap);
+        this.#domChangeListeners.forEach((listener) => listener());
       }
     );
 
+    this.#restoreAriaNotify = interceptAriaNotify(
+      root,
+      (node, announcement, priority) =>
+        this.#announceAriaNotification(node, announcement, priority)
+    );
+
+    this.#restoreShowModal = interceptShowModal(root);
+
     const tree = this.#getAccessibilityTree();
 
+    this.#previousAccessibilityNodeTreeMap =
+      this.#getAccessibilityNodeTreeMap();
+
     if (!tree.length) {
       return;
     }
@@ -634,6 +2046,12 @@ export class Virtual {
    */
   async stop() {
     this.#disconnectDOMObserver?.();
+    this.#restoreAriaNotify?.();
+    this.#restoreAriaNotify = null;
+    this.#restoreShowModal?.();
+    this.#restoreShowModal = null;
+    this.#cancelPendingAnnouncements();
+    this.#busyLiveRegions.clear();
     this.#container?.removeEventListener("focusin", this.#boundHandleFocusChange);
     this.#invalidateTreeCache();
 
@@ -645,8 +2063,29 @@ export class Virtual {
     this.#activeNode = null;
     this.#container = null;
     this.#itemTextLog = [];
-    this.#spokenPhraseLog = [];
+    this.#announcementLog = [];
+    this.#announcementSequence = 0;
+    this.#diagnosticLog = [];
+    this.#previousAccessibilityNodeTreeMap = new Map();
     this.#boundHandleFocusChange = null;
+    this.#mode = MODE.BROWSE;
+    this.#isAutomaticModeSwitchDisabled = false;
+    this.#keyBindings = {};
+    this.#profile = profiles.generic;
+    this.#formatItemText = null;
+    this.#formatSpokenPhrase = null;
+    this.#pendingSpeechPolicy = PENDING_SPEECH_POLICY.FLUSH;
+    this.#strictLiveRegions = false;
+    this.#scrollToLoadTimeout = 0;
+    this.#boundaryBehavior = BOUNDARY_BEHAVIOR.WRAP;
+    this.#strictNavigation = false;
+    this.#announceBoundaries = false;
+    this.#interactWithGroups = false;
+    this.#switchModes = false;
+    this.#interactionGroups = [];
+    this.#exitedGroup = null;
+    this.#reviewOffset = 0;
+    this.#domChangeListeners.forEach((listener) => listener());
     return;
   }
 
@@ -672,7 +2111,7 @@ export class Virtual {
    */
   async previous() {
     this.#checkContainer();
-    await tick();
+    await this.#handleUserAction();
 
     const tree = this.#getModalAccessibilityTree();
 
@@ -680,14 +2119,35 @@ export class Virtual {
       return;
     }
 
+    const groupItems = this.#getGroupItems(tree);
+
+    if (groupItems) {
+      this.#moveWithinGroup(groupItems, -1);
+
+      return;
+    }
+
     const currentIndex = this.#getCurrentIndex(tree);
+
+    if (currentIndex === 0) {
+      if (this.#boundaryBehavior === BOUNDARY_BEHAVIOR.STOP) {
+        this.#failNavigation(BOUNDARY_SPOKEN_PHRASE.TOP);
+
+        return;
+      }
+
+      this.#announceBoundary(BOUNDARY_SPOKEN_PHRASE.WRAPPING_TO_BOTTOM);
+    }
+
     const nextIndex = currentIndex === -1 ? 0 : currentIndex - 1;
     // We've covered the tree having no length so there must be at least one
     // index, and we ensure to zero-guard with the logic above.
 
+    const previousAccessibilityNode = this.#activeNode;
     const newActiveNode = tree.at(nextIndex)!;
 
     this.#updateState(newActiveNode);
+    this.#focusFeedArticle(previousAccessibilityNode);
 
     return;
   }
@@ -714,7 +2174,8 @@ export class Virtual {
    */
   async next() {
     this.#checkContainer();
-    await tick();
+    await this.#handleUserAction();
+    await this.#scrollToLoadMore();
 
     const tree = this.#getModalAccessibilityTree();
 
@@ -722,7 +2183,28 @@ export class Virtual {
       return;
     }
 
-    const currentIndex = this.#getCurrentIndex(tree);
+    const groupItems = this.#getGroupItems(tree);
+
+    if (groupItems) {
+      this.#moveWithinGroup(groupItems, 1);
+
+      return;
+    }
+
+    const currentIndex = this.#exitedGroup
+      ? getGroupLastIndex({ group: this.#exitedGroup, tree })
+      : this.#getCurrentIndex(tree);
+
+    if (currentIndex === tree.length - 1) {
+      if (this.#boundaryBehavior === BOUNDARY_BEHAVIOR.STOP) {
+        this.#failNavigation(BOUNDARY_SPOKEN_PHRASE.BOTTOM);
+
+        return;
+      }
+
+      this.#announceBoundary(BOUNDARY_SPOKEN_PHRASE.WRAPPING_TO_TOP);
+    }
+
     const nextIndex =
       currentIndex === -1 || currentIndex === tree.length - 1
         ? 0
@@ -730,9 +2212,11 @@ export class Virtual {
     // We've covered the tree having no length so there must be at least one
     // index, and we ensure to zero-guard with the logic above.
 
+    const previousAccessibilityNode = this.#activeNode;
     const newActiveNode = tree.at(nextIndex)!;
 
     this.#updateState(newActiveNode);
+    this.#focusFeedArticle(previousAccessibilityNode);
 
     return;
   }
@@ -762,7 +2246,7 @@ export class Virtual {
    */
   async act() {
     this.#checkContainer();
-    await tick();
+    await this.#handleUserAction();
 
     if (!this.#activeNode) {
       return;
@@ -776,7 +2260,9 @@ export class Virtual {
      *
      * REF: https://www.w3.org/TR/core-aam-1.2/#mapping_actions
      */
-    await userEvent.click(target, defaultUserEventOptions);
+    await this.#dispatchUserEvent(() =>
+      userEvent.click(target, defaultUserEventOptions)
+    );
 
     return;
   }
@@ -784,13 +2270,44 @@ export class Virtual {
   /**
    * [API Reference](https://www.guidepup.dev/docs/api/class-virtual#virtual-interact)
    *
-   * No-op to provide same API across screen readers.
+   * Interact with the item in the Virtual Screen Reader cursor by switching
+   * to focus mode, in which all keys are passed through to the page.
+   *
+   * Automatic switching between browse and focus mode on focus changes, when
+   * enabled using the `switchModes` option, is disabled until
+   * `virtual.stopInteracting()` is called.
+   *
+   * When `interactWithGroups` is enabled, as it is for the
+   * `"voiceover-macos"` profile, interacting with a group such as a list,
+   * table, toolbar or landmark instead moves into it, announcing e.g.
+   * `"in list"`, and `virtual.next()` and `virtual.previous()` then move
+   * between its children.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
    *
-   * The Virtual Screen Reader does not require users to perform an additional
-   * command to interact with the item in the Virtual Screen Reader cursor.
+   *   // Switch to focus mode to pass keys through to the page.
+   *   await virtual.interact();
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
    */
   async interact() {
     this.#checkContainer();
+    await this.#handleUserAction();
+
+    if (this.#interactWithGroup()) {
+      return;
+    }
+
+    this.#isAutomaticModeSwitchDisabled = true;
+    this.#setMode(MODE.FOCUS);
 
     return;
   }
@@ -798,13 +2315,45 @@ export class Virtual {
   /**
    * [API Reference](https://www.guidepup.dev/docs/api/class-virtual#virtual-stop-interacting)
    *
-   * No-op to provide same API across screen readers.
+   * Stop interacting with the item in the Virtual Screen Reader cursor by
+   * switching to browse mode, in which keys with a screen reader binding are
+   * handled by the Virtual Screen Reader.
+   *
+   * Automatic switching between browse and focus mode on focus changes is
+   * re-enabled.
+   *
+   * When interacting with a group, the cursor instead moves back out to the
+   * group itself, announcing e.g. `"out of list"`, and `virtual.next()` then
+   * moves past the group as a single stop.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Switch to focus mode to pass keys through to the page.
+   *   await virtual.interact();
+   *
+   *   // Switch back to browse mode.
+   *   await virtual.stopInteracting();
    *
-   * The Virtual Screen Reader does not require users to perform an additional
-   * command to interact with the item in the Virtual Screen Reader cursor.
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
    */
   async stopInteracting() {
     this.#checkContainer();
+    await this.#handleUserAction();
+
+    if (this.#stopInteractingWithGroup()) {
+      return;
+    }
+
+    this.#isAutomaticModeSwitchDisabled = false;
+    this.#setMode(MODE.BROWSE);
 
     return;
   }
@@ -814,6 +2363,15 @@ export class Virtual {
    *
    * Press a key on the active item.
    *
+   * When in browse mode, keys with a screen reader binding are handled by the
+   * Virtual Screen Reader instead, e.g. with the `"nvda"` key bindings
+   * `ArrowDown` and `ArrowUp` move the Virtual Screen Reader cursor to the
+   * next and previous items, and `h` and `Shift+h` move to the next and
+   * previous headings. The bindings can be configured using the `keyBindings`
+   * option of `virtual.start()`, and no keys are bound for the `"generic"`
+   * profile by default. Use `virtual.interact()` to switch to focus mode to
+   * pass all keys through to the page.
+   *
    * `key` can specify the intended [keyboardEvent.key](https://developer.mozilla.org/en-US/docs/Web/API/KeyboardEvent/key)
    * value or a single character to generate the text for. A superset of the `key` values can be found
    * [on the MDN key values page](https://developer.mozilla.org/en-US/docs/Web/API/KeyboardEvent/key/Key_Values). Examples of the keys are:
@@ -850,12 +2408,24 @@ export class Virtual {
    */
   async press(key: string) {
     this.#checkContainer();
-    await tick();
+    await this.#handleUserAction();
 
     if (!this.#activeNode) {
       return;
     }
 
+    const keyBindingAction = this.#keyBindings[normalizeKey(key)];
+
+    if (this.#mode === MODE.BROWSE && keyBindingAction) {
+      if (keyBindingAction === "next" || keyBindingAction === "previous") {
+        await this[keyBindingAction]();
+      } else {
+        await this.perform(keyBindingAction);
+      }
+
+      return;
+    }
+
     const rawKeys = key.replace(/{/g, "{{").replace(/\[/g, "[[").split("+");
     const modifiers: string[] = [];
     const keys: string[] = [];
@@ -878,7 +2448,9 @@ export class Virtual {
     ].join("");
 
     this.#focusActiveElement();
-    await userEvent.keyboard(keyboardCommand, defaultUserEventOptions);
+    await this.#dispatchUserEvent(() =>
+      userEvent.keyboard(keyboardCommand, defaultUserEventOptions)
+    );
     await this.#refreshState(true);
 
     return;
@@ -911,14 +2483,16 @@ export class Virtual {
    */
   async type(text: string) {
     this.#checkContainer();
-    await tick();
+    await this.#handleUserAction();
 
     if (!this.#activeNode) {
       return;
     }
 
     const target = getElementNode(this.#activeNode);
-    await userEvent.type(target, text, defaultUserEventOptions);
+    await this.#dispatchUserEvent(() =>
+      userEvent.type(target, text, defaultUserEventOptions)
+    );
     await this.#refreshState(true);
 
     return;
@@ -952,7 +2526,7 @@ export class Virtual {
     K extends Omit<Parameters<VirtualCommands[T]>[0], keyof VirtualCommandArgs>
   >(command: T, options?: { [L in keyof K]: K[L] }) {
     this.#checkContainer();
-    await tick();
+    await this.#handleUserAction();
 
     const tree = this.#getModalAccessibilityTree();
 
@@ -961,28 +2535,202 @@ export class Virtual {
     }
 
     const currentIndex = this.#getCurrentIndex(tree);
-    const nextIndex = commands[command]?.({
+    const virtualCommand = (this.#customCommands.get(command) ??
+      commands[command as keyof typeof commands]) as VirtualCommand | undefined;
+
+    const result = virtualCommand?.({
       ...options,
       // `this.#checkContainer();` above null guards us here.
 
       container: this.#container!,
       currentIndex,
+      profile: this.#profile,
+      reviewOffset: this.#reviewOffset,
       tree,
     });
 
+    const commandResult: VirtualCommandResult =
+      typeof result === "number" ? { index: result } : result ?? {};
+    const { index: nextIndex, spokenPhrase } = commandResult;
+
+    const quickNavigation = getQuickNavigation(command);
+
+    if (quickNavigation) {
+      const { direction } = quickNavigation;
+
+      const isWrapping =
+        typeof nextIndex === "number" &&
+        (direction === "next"
+          ? nextIndex <= currentIndex
+          : nextIndex >= currentIndex);
+
+      if (
+        typeof nextIndex !== "number" ||
+        (isWrapping && this.#boundaryBehavior === BOUNDARY_BEHAVIOR.STOP)
+      ) {
+        this.#failNavigation(getNoMatchSpokenPhrase(quickNavigation));
+
+        return;
+      }
+
+      if (isWrapping) {
+        this.#announceBoundary(
+          direction === "next"
+            ? BOUNDARY_SPOKEN_PHRASE.WRAPPING_TO_TOP
+            : BOUNDARY_SPOKEN_PHRASE.WRAPPING_TO_BOTTOM
+        );
+      }
+    }
+
     if (typeof nextIndex !== "number") {
+      // Some commands, such as reading a table row, announce without moving
+      // the cursor.
+      this.#reviewOffset = commandResult.reviewOffset ?? this.#reviewOffset;
+      this.#applyCommandResult(commandResult, tree.at(currentIndex) ?? null, [
+        spokenPhrase,
+        ...(commandResult.spokenPhrases ?? []),
+      ]);
+
       return;
     }
 
     // We know the tree has length, and we guard against the command not being
     // able to find an index in the tree so we are fine.
 
+    const previousAccessibilityNode = this.#activeNode;
     const newActiveNode = tree.at(nextIndex)!;
-    this.#updateState(newActiveNode);
+
+    this.#updateState(newActiveNode, { spokenPhrase });
+    this.#focusFeedArticle(previousAccessibilityNode);
+    this.#reviewOffset = commandResult.reviewOffset ?? this.#reviewOffset;
+    this.#applyCommandResult(
+      commandResult,
+      newActiveNode,
+      commandResult.spokenPhrases ?? []
+    );
 
     return;
   }
 
+  #applyCommandResult(
+    { focusNode, mode }: VirtualCommandResult,
+    accessibilityNode: AccessibilityNode | null,
+    spokenPhrases: (string | undefined)[]
+  ) {
+    spokenPhrases.filter(Boolean).forEach((spokenPhrase) =>
+      this.#logAnnouncement({
+        accessibilityNode,
+        itemText: "",
+        node: accessibilityNode?.node ?? null,
+        source: ANNOUNCEMENT_SOURCE.NAVIGATION,
+        spokenPhrase: spokenPhrase!,
+      })
+    );
+
+    if (focusNode) {
+      getElementFromNode(focusNode).focus();
+    }
+
+    if (mode) {
+      this.#isAutomaticModeSwitchDisabled = mode === MODE.FOCUS;
+      this.#setMode(mode);
+    }
+  }
+
+  /**
+   * Get the list of elements of a kind, in document order, as a screen reader
+   * rotor or elements list would show them.
+   *
+   * The kind can be one of `"headings"`, `"links"`, `"landmarks"`,
+   * `"formControls"`, `"tables"` or `"images"`.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Get the headings of the page.
+   *   const headings = await virtual.elementsList("headings");
+   *
+   *   expect(headings.map(({ spokenPhrase }) => spokenPhrase)).toEqual([
+   *     "heading, Section Heading, level 1",
+   *     "heading, Article Header Heading, level 2",
+   *   ]);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   *
+   * @param {string} kind The kind of elements to list.
+   * @returns {Promise<object[]>} The elements list.
+   */
+  async elementsList(kind: ElementsListKind) {
+    this.#checkContainer();
+
+    await tick();
+
+    return getElementsListNodes({
+      kind,
+      tree: this.#getModalAccessibilityTree(),
+    }).map((accessibilityNode) =>
+      getElementsListItem(
+        accessibilityNode,
+        this.#formatAnnouncement(
+          accessibilityNode,
+          getSpokenPhrase(accessibilityNode, this.#profile)
+        ).spokenPhrase
+      )
+    );
+  }
+
+  /**
+   * Move the Virtual Screen Reader cursor to an element in the list of
+   * elements of a kind, as if the user had chosen it from a screen reader
+   * rotor or elements list, and announce it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Move to the second link of the page.
+   *   await virtual.moveToElement("links", 1);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   *
+   * @param {string} kind The kind of elements to list.
+   * @param {number} index The index of the element in the elements list,
+   * from `0` to one less than the length of the list.
+   */
+  async moveToElement(kind: ElementsListKind, index: number) {
+    this.#checkContainer();
+    await this.#handleUserAction();
+
+    // Indexes count from the start of the list, so negative indexes are
+    // rejected rather than counting back from the end.
+    const accessibilityNode = getElementsListNodes({
+      kind,
+      tree: this.#getModalAccessibilityTree(),
+    })[index];
+
+    if (!accessibilityNode) {
+      throw new Error(ERR_VIRTUAL_ELEMENT_NOT_FOUND);
+    }
+
+    const previousAccessibilityNode = this.#activeNode;
+
+    this.#updateState(accessibilityNode);
+    this.#focusFeedArticle(previousAccessibilityNode);
+  }
+
   /**
    * [API Reference](https://www.guidepup.dev/docs/api/class-virtual#virtual-click)
    *
@@ -1013,7 +2761,7 @@ export class Virtual {
    */
   async click({ button = "left", clickCount = 1 } = {}) {
     this.#checkContainer();
-    await tick();
+    await this.#handleUserAction();
 
     if (!this.#activeNode) {
       return;
@@ -1023,9 +2771,8 @@ export class Virtual {
     const keys = key.repeat(clickCount);
     const target = getElementNode(this.#activeNode);
 
-    await userEvent.pointer(
-      [{ target }, { keys, target }],
-      defaultUserEventOptions
+    await this.#dispatchUserEvent(() =>
+      userEvent.pointer([{ target }, { keys, target }], defaultUserEventOptions)
     );
 
     return;
@@ -1060,8 +2807,44 @@ export class Virtual {
   async lastSpokenPhrase() {
     this.#checkContainer();
     await tick();
+    this.#flushPendingAnnouncements();
+
+    return this.#announcementLog.at(-1)?.spokenPhrase ?? "";
+  }
+
+  /**
+   * Get the last announcement made by the Virtual Screen Reader, including the
+   * spoken phrase, the item text, what caused the announcement, and details of
+   * the node it is for.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Move to the next item.
+   *   await virtual.next();
+   *
+   *   // Get the announcement made by the Virtual Screen Reader from moving to
+   *   // the next item above.
+   *   const { source, spokenPhrase } = await virtual.lastAnnouncement();
+   *   console.log(source, spokenPhrase);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   *
+   * @returns {Promise<Announcement|null>} The last announcement.
+   */
+  async lastAnnouncement() {
+    this.#checkContainer();
+    await tick();
+    this.#flushPendingAnnouncements();
 
-    return this.#spokenPhraseLog.at(-1) ?? "";
+    return this.#announcementLog.at(-1) ?? null;
   }
 
   /**
@@ -1130,9 +2913,99 @@ export class Virtual {
   async spokenPhraseLog() {
     this.#checkContainer();
 
+    await tick();
+    this.#flushPendingAnnouncements();
+
+    return this.#announcementLog.map(({ spokenPhrase }) => spokenPhrase);
+  }
+
+  /**
+   * Get the log of all announcements for this Virtual Screen Reader instance.
+   *
+   * Each announcement includes:
+   *
+   * - `spokenPhrase` - the phrase spoken.
+   * - `itemText` - the item text logged with the announcement.
+   * - `source` - what caused the announcement, one of `"navigation"`,
+   *   `"focus"`, `"live-polite"`, `"live-assertive"`, `"notify-normal"`,
+   *   `"notify-high"`, `"dialog-entry"`, `"container-entry"`,
+   *   `"container-exit"`, `"mode-change"` or `"boundary"`.
+   * - `node` - the DOM node the announcement is for, and a `cssPath`
+   *   identifying it.
+   * - `role`, `accessibleName`, `accessibleValue`, `accessibleDescription`
+   *   and `accessibleAttributeToLabelMap` - the details of the node.
+   * - `sequence` - a number which increases with every announcement.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Move through several items.
+   *   for (let i = 0; i < 10; i++) {
+   *     await virtual.next();
+   *   }
+   *
+   *   // Get the live region announcements made while moving through the
+   *   // items above.
+   *   const announcementLog = await virtual.announcementLog();
+   *   console.log(
+   *     announcementLog.filter(({ source }) => source.startsWith("live-"))
+   *   );
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   *
+   * @returns {Promise<Announcement[]>} The announcement log.
+   */
+  async announcementLog() {
+    this.#checkContainer();
+
+    await tick();
+    this.#flushPendingAnnouncements();
+
+    return [...this.#announcementLog];
+  }
+
+  /**
+   * Get the log of diagnostics for this Virtual Screen Reader instance,
+   * explaining why the Virtual Screen Reader did not make an announcement a
+   * page may have expected, e.g. for a live region which was added to the
+   * page with its content already inside, or when an event handler threw an
+   * error.
+   *
+   * Each diagnostic includes a `code` identifying the problem, a `message`
+   * explaining it, and the `node` and `cssPath` it is for.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body, profile: "nvda" });
+   *
+   *   // ... perform some commands.
+   *
+   *   // Explain any live region updates which were not announced.
+   *   console.log(await virtual.diagnosticLog());
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   *
+   * @returns {Promise<Diagnostic[]>} The diagnostic log.
+   */
+  async diagnosticLog() {
+    this.#checkContainer();
+
     await tick();
 
-    return this.#spokenPhraseLog;
+    return [...this.#diagnosticLog];
   }
 
   /**
@@ -1175,8 +3048,8 @@ export class Virtual {
   /**
    * [API Reference](https://www.guidepup.dev/docs/api/class-virtual#virtual-clear-spoken-phrase-log)
    *
-   * Clear the log of all spoken phrases for this Virtual Screen Reader
-   * instance.
+   * Clear the log of all spoken phrases, and the announcement log, for this
+   * Virtual Screen Reader instance.
    *
    * ```ts
    * import { virtual } from "@guidepup/virtual-screen-reader";
@@ -1200,7 +3073,7 @@ export class Virtual {
 
     await tick();
 
-    this.#spokenPhraseLog = [];
+    this.#announcementLog = [];
   }
 
   /**
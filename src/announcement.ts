@@ -0,0 +1,91 @@
+import type { AccessibleAttributeToLabelMap } from "./getNodeAccessibilityData/getAccessibleAttributeLabels";
+
+type ValueOf<T> = T[keyof T];
+
+export const ANNOUNCEMENT_SOURCE = {
+  BOUNDARY: "boundary",
+  CONTAINER_ENTRY: "container-entry",
+  CONTAINER_EXIT: "container-exit",
+  DIALOG_ENTRY: "dialog-entry",
+  FOCUS: "focus",
+  LIVE_ASSERTIVE: "live-assertive",
+  LIVE_POLITE: "live-polite",
+  MODE_CHANGE: "mode-change",
+  NAVIGATION: "navigation",
+  NOTIFY_HIGH: "notify-high",
+  NOTIFY_NORMAL: "notify-normal",
+} as const;
+
+export type AnnouncementSource = ValueOf<typeof ANNOUNCEMENT_SOURCE>;
+
+/**
+ * Sources of announcements describing the item in the Virtual Screen Reader
+ * cursor or the containers around it, rather than notifications.
+ */
+export const nodeAnnouncementSources = new Set<AnnouncementSource>([
+  ANNOUNCEMENT_SOURCE.CONTAINER_ENTRY,
+  ANNOUNCEMENT_SOURCE.CONTAINER_EXIT,
+  ANNOUNCEMENT_SOURCE.DIALOG_ENTRY,
+  ANNOUNCEMENT_SOURCE.FOCUS,
+  ANNOUNCEMENT_SOURCE.NAVIGATION,
+]);
+
+export interface Announcement {
+  /**
+   * The accessible attributes of the node mapped to their announced labels.
+   */
+  accessibleAttributeToLabelMap: AccessibleAttributeToLabelMap;
+
+  /**
+   * The accessible description of the node.
+   */
+  accessibleDescription: string;
+
+  /**
+   * The accessible name of the node.
+   */
+  accessibleName: string;
+
+  /**
+   * The accessible value of the node.
+   */
+  accessibleValue: string;
+
+  /**
+   * A CSS selector identifying the node, or its parent element for text
+   * nodes.
+   */
+  cssPath: string;
+
+  /**
+   * The item text logged with the announcement.
+   */
+  itemText: string;
+
+  /**
+   * The DOM node the announcement is for, or `null` for announcements which
+   * are not about a node, such as mode changes.
+   */
+  node: Node | null;
+
+  /**
+   * The role of the node.
+   */
+  role: string;
+
+  /**
+   * A number which increases with every announcement made by the Virtual
+   * Screen Reader.
+   */
+  sequence: number;
+
+  /**
+   * What caused the announcement.
+   */
+  source: AnnouncementSource;
+
+  /**
+   * The phrase spoken by the Virtual Screen Reader.
+   */
+  spokenPhrase: string;
+}
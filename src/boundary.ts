@@ -0,0 +1,31 @@
+type ValueOf<T> = T[keyof T];
+
+/**
+ * What happens when the Virtual Screen Reader cursor is moved past the first
+ * or last item, either wrapping around to the other end or staying put.
+ *
+ * Screen readers announce reaching either end, and quick navigation commands
+ * which find no further item of their kind announce so rather than staying
+ * silent.
+ */
+export const BOUNDARY_BEHAVIOR = {
+  STOP: "stop",
+  WRAP: "wrap",
+} as const;
+
+export type BoundaryBehavior = ValueOf<typeof BOUNDARY_BEHAVIOR>;
+
+export const BOUNDARY_SPOKEN_PHRASE = {
+  BOTTOM: "bottom of document",
+  TOP: "top of document",
+  WRAPPING_TO_BOTTOM: "wrapping to bottom",
+  WRAPPING_TO_TOP: "wrapping to top",
+} as const;
+
+export const getNoMatchSpokenPhrase = ({
+  direction,
+  itemName,
+}: {
+  direction: "next" | "previous";
+  itemName: string;
+}) => `no ${direction} ${itemName}`;
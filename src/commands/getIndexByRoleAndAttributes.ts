@@ -1,7 +1,10 @@
-import { matchesAccessibleAttributes, matchesRoles } from "./nodeMatchers";
+import type { AriaAttributes, TextMatcher } from "./types";
+import {
+  matchesAccessibleAttributes,
+  matchesRoles,
+  matchesText,
+} from "./nodeMatchers";
 import { AccessibilityNode } from "../createAccessibilityTree";
-import type { AriaAttributes } from "./types";
-import { END_OF_ROLE_PREFIX } from "../flattenTree";
 
 export interface GetIndexFilters {
   /** Matches a node only if the node has any of these roles */
@@ -9,6 +12,15 @@ export interface GetIndexFilters {
 
   /** Matches a node only if the node has **all** of these aria attributes */
   ariaAttributes?: Readonly<AriaAttributes>;
+
+  /** Matches a node only if its accessible name matches */
+  name?: TextMatcher;
+
+  /** Matches a node only if its accessible description matches */
+  description?: TextMatcher;
+
+  /** Matches a node only if its accessible value matches */
+  value?: TextMatcher;
 }
 
 export function getIndexByRoleAndAttributes({
@@ -22,9 +34,12 @@ export function getIndexByRoleAndAttributes({
 }) {
   const accessibilityNode = reorderedTree.find(
     (node) =>
-      !node.spokenRole.startsWith(END_OF_ROLE_PREFIX) &&
+      !node.isContainerEnd &&
       matchesRoles(node, filters.roles) &&
-      matchesAccessibleAttributes(node, filters.ariaAttributes)
+      matchesAccessibleAttributes(node, filters.ariaAttributes) &&
+      matchesText(node.accessibleName, filters.name) &&
+      matchesText(node.accessibleDescription, filters.description) &&
+      matchesText(node.accessibleValue, filters.value)
   );
 
   if (!accessibilityNode) {
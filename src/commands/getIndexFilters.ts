@@ -0,0 +1,16 @@
+import type { GetIndexFilters } from "./getIndexByRoleAndAttributes";
+import type { NodeMatcher } from "./types";
+
+export const getIndexFilters = ({
+  description,
+  name,
+  role,
+  state,
+  value,
+}: NodeMatcher): GetIndexFilters => ({
+  ariaAttributes: state,
+  description,
+  name,
+  roles: typeof role === "string" ? [role] : role,
+  value,
+});
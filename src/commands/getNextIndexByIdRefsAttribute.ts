@@ -4,7 +4,8 @@ import { getNodeByIdRef } from "../getNodeByIdRef";
 import { isElement } from "../isElement";
 import { VirtualCommandArgs } from "./types";
 
-export interface GetNextIndexByIdRefsAttributeArgs extends VirtualCommandArgs {
+export interface GetNextIndexByIdRefsAttributeArgs
+  extends Omit<VirtualCommandArgs, "profile"> {
   attributeName: string;
   index?: number;
 }
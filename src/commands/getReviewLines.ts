@@ -0,0 +1,182 @@
+import type { AccessibilityNode } from "../createAccessibilityTree";
+import { getAncestors } from "../getAncestors";
+import { getItemText } from "../getItemText";
+import { isElement } from "../isElement";
+
+export interface ReviewLinePart {
+  index: number;
+  start: number;
+  text: string;
+}
+
+export interface ReviewLine {
+  parts: ReviewLinePart[];
+  text: string;
+}
+
+export interface ReviewPosition {
+  lineIndex: number;
+  offset: number;
+}
+
+/**
+ * HTML elements which are rendered inline by default, so text in them
+ * continues the line of the text around them.
+ *
+ * REF: https://html.spec.whatwg.org/multipage/rendering.html#phrasing-content-3
+ */
+const inlineElements = new Set([
+  "a",
+  "abbr",
+  "b",
+  "bdi",
+  "bdo",
+  "cite",
+  "code",
+  "data",
+  "del",
+  "dfn",
+  "em",
+  "i",
+  "ins",
+  "kbd",
+  "label",
+  "mark",
+  "q",
+  "s",
+  "samp",
+  "small",
+  "span",
+  "strong",
+  "sub",
+  "sup",
+  "time",
+  "u",
+  "var",
+]);
+
+const WHITESPACE_END = /\s$/;
+const WHITESPACE_START = /^\s/;
+
+const getBlock = (node: Node) => {
+  let element = isElement(node) ? node : node.parentElement;
+
+  while (element && inlineElements.has(element.localName)) {
+    element = element.parentElement;
+  }
+
+  return element;
+};
+
+const getSeparator = (previousNode: Node, node: Node) =>
+  WHITESPACE_END.test(previousNode.textContent ?? "") ||
+  WHITESPACE_START.test(node.textContent ?? "")
+    ? " "
+    : "";
+
+/**
+ * Screen reader review cursors read the text of the page a line at a time,
+ * where a line continues across inline elements such as links, abbreviations
+ * and visually hidden text, even though each is a separate item for the
+ * Virtual Screen Reader cursor.
+ *
+ * REF: https://www.nvaccess.org/files/nvda/documentation/userGuide.html#ReviewingText
+ */
+export function getReviewLines(tree: AccessibilityNode[]) {
+  const lines: ReviewLine[] = [];
+  let previous: { block: Element | null; node: Node } | null = null;
+
+  tree.forEach((accessibilityNode, index) => {
+    // The text of a node whose content is read as separate items comes from
+    // those items, e.g. an abbreviation is read as its content rather than
+    // its title.
+    const isContainer = getAncestors(tree[index + 1] ?? {}).some(
+      ({ node }) => node === accessibilityNode.node
+    );
+    const text =
+      accessibilityNode.isContainerEnd || isContainer
+        ? ""
+        : getItemText(accessibilityNode);
+
+    if (!text) {
+      return;
+    }
+
+    const { node } = accessibilityNode;
+    const block = getBlock(node);
+    const line = lines.at(-1);
+
+    if (line && previous?.block === block) {
+      line.text += getSeparator(previous.node, node);
+      line.parts.push({ index, start: line.text.length, text });
+      line.text += text;
+    } else {
+      lines.push({ parts: [{ index, start: 0, text }], text });
+    }
+
+    previous = { block, node };
+  });
+
+  return lines;
+}
+
+/**
+ * Returns the position of the review cursor in the lines, and whether it is
+ * on the text of the current node. When the current node has no text the
+ * position is the start of the text which follows it.
+ */
+export function getReviewPosition({
+  currentIndex,
+  lines,
+  reviewOffset,
+}: {
+  currentIndex: number;
+  lines: ReviewLine[];
+  reviewOffset: number;
+}): ReviewPosition & { isOnText: boolean } {
+  for (const [lineIndex, { parts, text }] of lines.entries()) {
+    const part = parts.find(({ index }) => index >= currentIndex);
+
+    if (!part) {
+      continue;
+    }
+
+    const isOnText = part.index === currentIndex;
+
+    // The offset can be on the space following the text of the node, but the
+    // text can have changed since the review cursor was last moved.
+    return {
+      isOnText,
+      lineIndex,
+      offset: isOnText
+        ? Math.min(
+            part.start + Math.min(reviewOffset, part.text.length),
+            text.length - 1
+          )
+        : part.start,
+    };
+  }
+
+  return { isOnText: false, lineIndex: lines.length, offset: 0 };
+}
+
+/**
+ * Returns the node in the tree for a position in the lines along with the
+ * offset of the position within the text of that node.
+ */
+export function getReviewPositionNode({
+  lineIndex,
+  lines,
+  offset,
+}: ReviewPosition & { lines: ReviewLine[] }) {
+  const part = lines[lineIndex].parts.findLast(({ start }) => start <= offset)!;
+
+  return { index: part.index, reviewOffset: offset - part.start };
+}
+
+export const getWords = (text: string) =>
+  Array.from(text.matchAll(/\S+/g), ({ 0: word, index }) => ({
+    end: index + word.length,
+    start: index,
+    word,
+  }));
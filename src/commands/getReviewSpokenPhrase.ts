@@ -0,0 +1,44 @@
+import {
+  getWords,
+  type ReviewLine,
+  type ReviewPosition,
+} from "./getReviewLines";
+
+export type GetReviewSpokenPhrase = (
+  args: ReviewPosition & { lines: ReviewLine[] }
+) => string | null;
+
+const SPACE = "space";
+
+const getCharacterPhrase = (character: string) =>
+  /\s/.test(character) ? SPACE : character;
+
+const getWordAt: GetReviewSpokenPhrase = ({ lineIndex, lines, offset }) =>
+  getWords(lines[lineIndex].text).find(
+    ({ end, start }) => start <= offset && offset < end
+  )?.word ?? null;
+
+export const getCharacterSpokenPhrase: GetReviewSpokenPhrase = ({
+  lineIndex,
+  lines,
+  offset,
+}) => getCharacterPhrase(lines[lineIndex].text[offset]);
+
+export const getWordSpokenPhrase: GetReviewSpokenPhrase = getWordAt;
+
+/**
+ * Screen readers spell out the current word when the command to read it is
+ * repeated, so that e.g. abbreviations and misspellings can be checked.
+ *
+ * REF: https://www.nvaccess.org/files/nvda/documentation/userGuide.html#ReviewingText
+ */
+export const getSpelledWordSpokenPhrase: GetReviewSpokenPhrase = (args) => {
+  const word = getWordAt(args);
+
+  return word ? Array.from(word, getCharacterPhrase).join(", ") : null;
+};
+
+export const getLineSpokenPhrase: GetReviewSpokenPhrase = ({
+  lineIndex,
+  lines,
+}) => lines[lineIndex].text;
@@ -0,0 +1,302 @@
+import type {
+  AccessibilityNode,
+  AccessibilityNodeTree,
+} from "../createAccessibilityTree";
+import { getAccessibleName } from "../getNodeAccessibilityData/getAccessibleName";
+import { getIdRefsByAttribute } from "../getIdRefsByAttribute";
+import { getNodeByIdRef } from "../getNodeByIdRef";
+
+export const tableRoles = ["grid", "table", "treegrid"] as const;
+
+const tableRolesSet = new Set<string>(tableRoles);
+const cellRoles = new Set(["cell", "columnheader", "gridcell", "rowheader"]);
+
+type TableAncestor = Pick<
+  AccessibilityNodeTree,
+  "node" | "parentAccessibilityNodeTree" | "role"
+> & { children?: AccessibilityNodeTree[] };
+
+/**
+ * Cells and rows are only ever elements, as text nodes have no role.
+ */
+export interface TableCell {
+  accessibleName: string;
+  columnIndex: number;
+  columnSpan: number;
+  node: Element;
+  role: string;
+  rowIndex: number;
+  rowNode: Element;
+  rowSpan: number;
+}
+
+export interface Table {
+  cells: TableCell[];
+  currentCell: TableCell | null;
+  grid: (TableCell | undefined)[][];
+  node: Node;
+}
+
+function getRows(tree: AccessibilityNodeTree): AccessibilityNodeTree[] {
+  return tree.children.flatMap((child) => {
+    if (child.role === "row") {
+      return child;
+    }
+
+    // Nested tables are navigated separately.
+    if (tableRolesSet.has(child.role)) {
+      return [];
+    }
+
+    return getRows(child);
+  });
+}
+
+function getCells(tree: AccessibilityNodeTree): AccessibilityNodeTree[] {
+  return tree.children.flatMap((child) => {
+    if (cellRoles.has(child.role)) {
+      return child;
+    }
+
+    if (child.role === "row" || tableRolesSet.has(child.role)) {
+      return [];
+    }
+
+    return getCells(child);
+  });
+}
+
+function getSpan(node: Element, attributeName: string) {
+  const span = parseInt(
+    node.getAttribute(attributeName) ??
+      node.getAttribute(`aria-${attributeName}`) ??
+      "1",
+    10
+  );
+
+  return Number.isNaN(span) || span < 1 ? 1 : span;
+}
+
+/**
+ * A simplified version of the HTML table forming algorithm which places each
+ * cell in a grid of slots, taking into account row and column spans.
+ *
+ * REF: https://html.spec.whatwg.org/multipage/tables.html#forming-a-table
+ */
+function formTable(tree: AccessibilityNodeTree) {
+  const cells: TableCell[] = [];
+  const rows = getRows(tree);
+  const grid: (TableCell | undefined)[][] = rows.map(() => []);
+
+  rows.forEach((row, rowIndex) => {
+    let columnIndex = 0;
+
+    getCells(row).forEach(({ accessibleName, node, role }) => {
+      while (grid[rowIndex][columnIndex]) {
+        columnIndex++;
+      }
+
+      const cell: TableCell = {
+        accessibleName,
+        columnIndex,
+        columnSpan: getSpan(node as Element, "colspan"),
+        node: node as Element,
+        role,
+        rowIndex,
+        rowNode: row.node as Element,
+        rowSpan: getSpan(node as Element, "rowspan"),
+      };
+
+      const lastRowIndex = Math.min(rowIndex + cell.rowSpan, rows.length);
+
+      for (let slotRow = rowIndex; slotRow < lastRowIndex; slotRow++) {
+        for (let offset = 0; offset < cell.columnSpan; offset++) {
+          grid[slotRow][columnIndex + offset] = cell;
+        }
+      }
+
+      cells.push(cell);
+      columnIndex += cell.columnSpan;
+    });
+  });
+
+  return { cells, grid };
+}
+
+export function getTableSize(tree: AccessibilityNodeTree) {
+  const { grid } = formTable(tree);
+
+  return {
+    columnCount: Math.max(0, ...grid.map((row) => row.length)),
+    rowCount: grid.length,
+  };
+}
+
+function getChildren(ancestor: TableAncestor) {
+  if (ancestor.children) {
+    return ancestor.children;
+  }
+
+  // Flattened nodes don't retain their children, but their parent does.
+  return (
+    ancestor.parentAccessibilityNodeTree?.children.find(
+      ({ node }) => node === ancestor.node
+    )?.children ?? []
+  );
+}
+
+export function getTable(accessibilityNode: AccessibilityNode): Table | null {
+  let currentCellNode: Node | null = null;
+  let ancestor: TableAncestor | null = accessibilityNode;
+
+  while (ancestor) {
+    if (!currentCellNode && cellRoles.has(ancestor.role)) {
+      currentCellNode = ancestor.node;
+    }
+
+    if (tableRolesSet.has(ancestor.role)) {
+      break;
+    }
+
+    ancestor = ancestor.parentAccessibilityNodeTree;
+  }
+
+  if (!ancestor) {
+    return null;
+  }
+
+  const { cells, grid } = formTable({
+    ...(ancestor as AccessibilityNodeTree),
+    children: getChildren(ancestor),
+  });
+
+  return {
+    cells,
+    currentCell: cells.find(({ node }) => node === currentCellNode) ?? null,
+    grid,
+    node: ancestor.node,
+  };
+}
+
+function getCellHeadersFromIdRefs({
+  cell,
+  container,
+  table,
+}: {
+  cell: TableCell;
+  container: Node;
+  table: Table;
+}) {
+  const headerNodes = getIdRefsByAttribute({
+    attributeName: "headers",
+    node: cell.node,
+  })
+    .map((idRef) => getNodeByIdRef({ container, idRef }))
+    .filter((node): node is Element => !!node && node !== cell.node);
+
+  if (!headerNodes.length) {
+    return null;
+  }
+
+  const columnHeaders: string[] = [];
+  const rowHeaders: string[] = [];
+
+  headerNodes.forEach((headerNode) => {
+    const headerCell = table.cells.find(({ node }) => node === headerNode);
+    const accessibleName =
+      headerCell?.accessibleName ?? getAccessibleName(headerNode);
+
+    if (headerCell?.role === "rowheader") {
+      rowHeaders.push(accessibleName);
+    } else {
+      columnHeaders.push(accessibleName);
+    }
+  });
+
+  return { columnHeaders, rowHeaders };
+}
+
+function getUniqueHeaderNames(
+  slots: (TableCell | undefined)[],
+  cell: TableCell,
+  role: string
+) {
+  return Array.from(
+    new Set(
+      slots
+        .filter(
+          (slot): slot is TableCell =>
+            !!slot && slot !== cell && slot.role === role
+        )
+        .map(({ accessibleName }) => accessibleName)
+    )
+  );
+}
+
+/**
+ * Determines the header cells for a data cell, preferring the explicit
+ * `headers` attribute and otherwise falling back to the `columnheader` and
+ * `rowheader` cells sharing the cell's columns and rows.
+ *
+ * REF:
+ * - https://html.spec.whatwg.org/multipage/tables.html#attr-tdth-headers
+ * - https://html.spec.whatwg.org/multipage/tables.html#header-and-data-cell-semantics
+ * - https://www.w3.org/TR/wai-aria-1.2/#columnheader
+ * - https://www.w3.org/TR/wai-aria-1.2/#rowheader
+ */
+export function getCellHeaders({
+  cell,
+  container,
+  table,
+}: {
+  cell: TableCell;
+  container: Node;
+  table: Table;
+}) {
+  const headersFromIdRefs = getCellHeadersFromIdRefs({
+    cell,
+    container,
+    table,
+  });
+
+  const spannedRows = table.grid.slice(
+    cell.rowIndex,
+    cell.rowIndex + cell.rowSpan
+  );
+
+  const { columnHeaders, rowHeaders } = headersFromIdRefs ?? {
+    columnHeaders: getUniqueHeaderNames(
+      table.grid.flatMap((row) =>
+        row.slice(cell.columnIndex, cell.columnIndex + cell.columnSpan)
+      ),
+      cell,
+      "columnheader"
+    ),
+    rowHeaders: getUniqueHeaderNames(spannedRows.flat(), cell, "rowheader"),
+  };
+
+  return {
+    columnHeaders: columnHeaders.filter(Boolean),
+    rowHeaders: rowHeaders.filter(Boolean),
+  };
+}
+
+/**
+ * Authors MAY use aria-rowindex and aria-colindex to indicate the position
+ * of a cell when not all of the rows or columns are present in the DOM.
+ *
+ * REF:
+ * - https://www.w3.org/TR/wai-aria-1.2/#aria-rowindex
+ * - https://www.w3.org/TR/wai-aria-1.2/#aria-colindex
+ */
+export function getCellCoordinates(cell: TableCell) {
+  const rowIndex =
+    cell.node.getAttribute("aria-rowindex") ??
+    cell.rowNode.getAttribute("aria-rowindex") ??
+    `${cell.rowIndex + 1}`;
+
+  const columnIndex =
+    cell.node.getAttribute("aria-colindex") ?? `${cell.columnIndex + 1}`;
+
+  return { columnIndex, rowIndex };
+}
@@ -0,0 +1,45 @@
+import {
+  getCellCoordinates,
+  getCellHeaders,
+  type Table,
+  type TableCell,
+} from "./getTable";
+import type { AccessibilityNode } from "../createAccessibilityTree";
+import { getSpokenPhrase } from "../getSpokenPhrase";
+import type { Profile } from "../profiles/index";
+
+/**
+ * When navigating between cells of a table, screen readers announce the
+ * position of the cell and the headers that apply to it ahead of the cell's
+ * own content.
+ *
+ * REF: https://www.w3.org/WAI/tutorials/tables/
+ */
+export function getTableCellSpokenPhrase({
+  accessibilityNode,
+  cell,
+  container,
+  profile,
+  table,
+}: {
+  accessibilityNode: AccessibilityNode;
+  cell: TableCell;
+  container: Node;
+  profile: Profile;
+  table: Table;
+}) {
+  const { columnIndex, rowIndex } = getCellCoordinates(cell);
+  const { columnHeaders, rowHeaders } = getCellHeaders({
+    cell,
+    container,
+    table,
+  });
+
+  return [
+    `row ${rowIndex}`,
+    ...rowHeaders,
+    `column ${columnIndex}`,
+    ...columnHeaders,
+    getSpokenPhrase(accessibilityNode, profile),
+  ].join(", ");
+}
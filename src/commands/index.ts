@@ -1,11 +1,47 @@
+import {
+  getCellAbove,
+  getCellBelow,
+  getCellLeft,
+  getCellRight,
+  getFirstCellInColumn,
+  getFirstCellInRow,
+  getLastCellInColumn,
+  getLastCellInRow,
+  moveToTableCell,
+} from "./moveToTableCell";
+import {
+  getCellsInColumn,
+  getCellsInRow,
+  readTableCells,
+} from "./readTableCells";
+import {
+  getCharacterSpokenPhrase,
+  getLineSpokenPhrase,
+  getSpelledWordSpokenPhrase,
+  getWordSpokenPhrase,
+} from "./getReviewSpokenPhrase";
+import {
+  getNextCharacter,
+  getNextLine,
+  getNextWord,
+  getPreviousCharacter,
+  getPreviousLine,
+  getPreviousWord,
+  moveReviewCursor,
+} from "./moveReviewCursor";
+import type { VirtualCommandArgs, VirtualCustomCommands } from "./types";
 import { getNextIndexByRoleAndAttributes } from "./getNextIndexByRoleAndAttributes";
 import { getPreviousIndexByRoleAndAttributes } from "./getPreviousIndexByRoleAndAttributes";
 import { jumpToControlledElement } from "./jumpToControlledElement";
 import { jumpToDetailsElement } from "./jumpToDetailsElement";
 import { jumpToErrorMessageElement } from "./jumpToErrorMessageElement";
+import { moveToNext } from "./moveToNext";
 import { moveToNextAlternateReadingOrderElement } from "./moveToNextAlternateReadingOrderElement";
+import { moveToPrevious } from "./moveToPrevious";
 import { moveToPreviousAlternateReadingOrderElement } from "./moveToPreviousAlternateReadingOrderElement";
-import { VirtualCommandArgs } from "./types";
+import { readReviewCursor } from "./readReviewCursor";
+import { tableRoles } from "./getTable";
+import { whereAmI } from "./whereAmI";
 
 const quickLandmarkNavigationRoles = [
   /**
@@ -111,6 +147,17 @@ const quickAriaRoleNavigationRoles = [
    * - https://webaim.org/projects/screenreadersurvey10/#finding
    */
   "link",
+  /**
+   * WAI-ARIA doesn't specify that assistive technologies should enable users
+   * to quickly navigate to elements with role article. However, moving
+   * between the articles of a feed is how users scroll through it, with focus
+   * following the reading cursor into each article.
+   *
+   * REF:
+   * - https://www.w3.org/TR/wai-aria-1.2/#article
+   * - https://www.w3.org/TR/wai-aria-1.2/#feed
+   */
+  "article",
 ] as const;
 
 interface QuickAriaRoleNavigationCommands {
@@ -554,6 +601,46 @@ interface QuickAriaRoleNavigationCommands {
    * ```
    */
   moveToPreviousLink: (args: VirtualCommandArgs) => number | null;
+  /**
+   * Move to the next element with an [`article`](https://www.w3.org/TR/wai-aria-1.2/#article)
+   * role.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the next article element.
+   *   await virtual.perform(virtual.commands.moveToNextArticle);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToNextArticle: (args: VirtualCommandArgs) => number | null;
+  /**
+   * Move to the previous element with an [`article`](https://www.w3.org/TR/wai-aria-1.2/#article)
+   * role.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the previous article element.
+   *   await virtual.perform(virtual.commands.moveToPreviousArticle);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToPreviousArticle: (args: VirtualCommandArgs) => number | null;
 }
 
 const quickAriaRoleNavigationCommands: QuickAriaRoleNavigationCommands =
@@ -980,6 +1067,64 @@ export const commands = {
    * ```
    */
   moveToPreviousAlternateReadingOrderElement,
+  /**
+   * Move to the next element matching all of the given filters:
+   *
+   * - `role` - a role, or a list of roles of which the element has any.
+   * - `name`, `description` and `value` - the accessible name, description
+   *   or value, matched exactly when a string, or against a regular
+   *   expression or predicate.
+   * - `state` - accessible attribute values, e.g.
+   *   `{ "aria-checked": "false" }`.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the next unchecked checkbox.
+   *   await virtual.perform(virtual.commands.moveToNext, {
+   *     role: "checkbox",
+   *     state: { "aria-checked": "false" },
+   *   });
+   *
+   *   // Perform action to move to the next save button.
+   *   await virtual.perform(virtual.commands.moveToNext, {
+   *     role: "button",
+   *     name: /save/i,
+   *   });
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToNext,
+  /**
+   * Move to the previous element matching all of the given filters. See
+   * `moveToNext` for the filters.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the previous Delete button.
+   *   await virtual.perform(virtual.commands.moveToPrevious, {
+   *     role: "button",
+   *     name: "Delete",
+   *   });
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToPrevious,
   ...quickAriaRoleNavigationCommands,
   /**
    * Move to the next element with any [`landmark`](https://www.w3.org/TR/wai-aria-1.2/#landmark)
@@ -1048,8 +1193,518 @@ export const commands = {
     roles: quickLandmarkNavigationRoles,
   }),
   ...headingLevelNavigationCommands,
+  /**
+   * Move to the next element with any table role:
+   *
+   * - [`grid`](https://www.w3.org/TR/wai-aria-1.2/#grid)
+   * - [`table`](https://www.w3.org/TR/wai-aria-1.2/#table)
+   * - [`treegrid`](https://www.w3.org/TR/wai-aria-1.2/#treegrid)
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the next table element.
+   *   await virtual.perform(virtual.commands.moveToNextTable);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToNextTable: getNextIndexByRoleAndAttributes({
+    roles: tableRoles,
+  }),
+  /**
+   * Move to the previous element with any table role:
+   *
+   * - [`grid`](https://www.w3.org/TR/wai-aria-1.2/#grid)
+   * - [`table`](https://www.w3.org/TR/wai-aria-1.2/#table)
+   * - [`treegrid`](https://www.w3.org/TR/wai-aria-1.2/#treegrid)
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the previous table element.
+   *   await virtual.perform(virtual.commands.moveToPreviousTable);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToPreviousTable: getPreviousIndexByRoleAndAttributes({
+    roles: tableRoles,
+  }),
+  /**
+   * Move to the cell below the current table cell, announcing its row and
+   * column along with any headers that apply to it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the cell in the next row.
+   *   await virtual.perform(virtual.commands.moveToNextTableRow);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToNextTableRow: moveToTableCell(getCellBelow),
+  /**
+   * Move to the cell above the current table cell, announcing its row and
+   * column along with any headers that apply to it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the cell in the previous row.
+   *   await virtual.perform(virtual.commands.moveToPreviousTableRow);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToPreviousTableRow: moveToTableCell(getCellAbove),
+  /**
+   * Move to the cell to the right of the current table cell, announcing its
+   * row and column along with any headers that apply to it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the cell in the next column.
+   *   await virtual.perform(virtual.commands.moveToNextTableColumn);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToNextTableColumn: moveToTableCell(getCellRight),
+  /**
+   * Move to the cell to the left of the current table cell, announcing its
+   * row and column along with any headers that apply to it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the cell in the previous column.
+   *   await virtual.perform(virtual.commands.moveToPreviousTableColumn);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToPreviousTableColumn: moveToTableCell(getCellLeft),
+  /**
+   * Move to the first cell in the row of the current table cell, or the first
+   * cell of the table when the cursor is on the table itself.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the first cell in the row.
+   *   await virtual.perform(virtual.commands.moveToFirstTableCellInRow);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToFirstTableCellInRow: moveToTableCell(getFirstCellInRow),
+  /**
+   * Move to the last cell in the row of the current table cell, announcing
+   * its row and column along with any headers that apply to it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the last cell in the row.
+   *   await virtual.perform(virtual.commands.moveToLastTableCellInRow);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToLastTableCellInRow: moveToTableCell(getLastCellInRow),
+  /**
+   * Move to the first cell in the column of the current table cell, usually
+   * the column header.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the first cell in the column.
+   *   await virtual.perform(virtual.commands.moveToFirstTableCellInColumn);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToFirstTableCellInColumn: moveToTableCell(getFirstCellInColumn),
+  /**
+   * Move to the last cell in the column of the current table cell, announcing
+   * its row and column along with any headers that apply to it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the last cell in the column.
+   *   await virtual.perform(virtual.commands.moveToLastTableCellInColumn);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToLastTableCellInColumn: moveToTableCell(getLastCellInColumn),
+  /**
+   * Read the contents of every cell in the row of the current table cell
+   * without moving the Virtual Screen Reader cursor.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to read the current table row.
+   *   await virtual.perform(virtual.commands.readTableRow);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  readTableRow: readTableCells(getCellsInRow),
+  /**
+   * Read the contents of every cell in the column of the current table cell
+   * without moving the Virtual Screen Reader cursor.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to read the current table column.
+   *   await virtual.perform(virtual.commands.readTableColumn);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  readTableColumn: readTableCells(getCellsInColumn),
+  /**
+   * Announce the containers around the Virtual Screen Reader cursor, such as
+   * landmarks, dialogs, lists, tables and groups, along with the position of
+   * the current item in each, without moving the cursor.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to announce where the cursor is.
+   *   await virtual.perform(virtual.commands.whereAmI);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  whereAmI,
+  /**
+   * Move the review cursor to the next character of the text and announce
+   * it, following the text on into the next node and line.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the next character.
+   *   await virtual.perform(virtual.commands.moveToNextCharacter);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToNextCharacter: moveReviewCursor(
+    getNextCharacter,
+    getCharacterSpokenPhrase
+  ),
+  /**
+   * Move the review cursor to the previous character of the text and
+   * announce it, following the text back into the previous node and line.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the previous character.
+   *   await virtual.perform(virtual.commands.moveToPreviousCharacter);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToPreviousCharacter: moveReviewCursor(
+    getPreviousCharacter,
+    getCharacterSpokenPhrase
+  ),
+  /**
+   * Move the review cursor to the next word of the text and announce it. A
+   * word continues across inline elements, such as links, with no space
+   * between them.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the next word.
+   *   await virtual.perform(virtual.commands.moveToNextWord);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToNextWord: moveReviewCursor(getNextWord, getWordSpokenPhrase),
+  /**
+   * Move the review cursor to the previous word of the text and announce
+   * it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the previous word.
+   *   await virtual.perform(virtual.commands.moveToPreviousWord);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToPreviousWord: moveReviewCursor(getPreviousWord, getWordSpokenPhrase),
+  /**
+   * Move the review cursor to the next line of the text and announce it. A
+   * line continues across inline elements, such as links, abbreviations and
+   * visually hidden text.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the next line.
+   *   await virtual.perform(virtual.commands.moveToNextLine);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToNextLine: moveReviewCursor(getNextLine, getLineSpokenPhrase),
+  /**
+   * Move the review cursor to the previous line of the text and announce
+   * it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to move to the previous line.
+   *   await virtual.perform(virtual.commands.moveToPreviousLine);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  moveToPreviousLine: moveReviewCursor(getPreviousLine, getLineSpokenPhrase),
+  /**
+   * Read the character under the review cursor without moving it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to read the current character.
+   *   await virtual.perform(virtual.commands.readCharacter);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  readCharacter: readReviewCursor(getCharacterSpokenPhrase),
+  /**
+   * Read the word under the review cursor without moving it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to read the current word.
+   *   await virtual.perform(virtual.commands.readWord);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  readWord: readReviewCursor(getWordSpokenPhrase),
+  /**
+   * Spell out the word under the review cursor, one character at a time,
+   * without moving it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to spell the current word.
+   *   await virtual.perform(virtual.commands.spellWord);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  spellWord: readReviewCursor(getSpelledWordSpokenPhrase),
+  /**
+   * Read the line under the review cursor without moving it.
+   *
+   * ```ts
+   * import { virtual } from "@guidepup/virtual-screen-reader";
+   *
+   * test("example test", async () => {
+   *   // Start the Virtual Screen Reader.
+   *   await virtual.start({ container: document.body });
+   *
+   *   // Perform action to read the current line.
+   *   await virtual.perform(virtual.commands.readLine);
+   *
+   *   // Stop the Virtual Screen Reader.
+   *   await virtual.stop();
+   * });
+   * ```
+   */
+  readLine: readReviewCursor(getLineSpokenPhrase),
+};
+
+const quickNavigationCommandNames = new Set<string>([
+  "moveToNext",
+  "moveToPrevious",
+  ...Object.keys(quickAriaRoleNavigationCommands),
+  ...Object.keys(headingLevelNavigationCommands),
+  "moveToNextLandmark",
+  "moveToPreviousLandmark",
+  "moveToNextTable",
+  "moveToPreviousTable",
+]);
+
+/**
+ * Returns the direction of a quick navigation command, which moves to the
+ * next or previous item of a kind, e.g. the next heading, along with the name
+ * of that kind of item, or `null` for any other command.
+ */
+export const getQuickNavigation = (command: string) => {
+  const match = quickNavigationCommandNames.has(command)
+    ? /^moveTo(Next|Previous)(.*)$/.exec(command)
+    : null;
+
+  if (!match) {
+    return null;
+  }
+
+  const [, direction, itemName] = match;
+
+  return {
+    direction: direction.toLowerCase() as "next" | "previous",
+    itemName:
+      itemName.replace(/(?<=.)(?=[A-Z0-9])/g, " ").toLowerCase() || "item",
+  };
 };
 
 export type VirtualCommands = {
   [K in keyof typeof commands]: (typeof commands)[K];
-};
+} & VirtualCustomCommands;
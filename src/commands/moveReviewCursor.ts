@@ -0,0 +1,138 @@
+import {
+  getReviewLines,
+  getReviewPosition,
+  getReviewPositionNode,
+  getWords,
+  type ReviewLine,
+  type ReviewPosition,
+} from "./getReviewLines";
+import type { VirtualCommandArgs, VirtualCommandResult } from "./types";
+import type { GetReviewSpokenPhrase } from "./getReviewSpokenPhrase";
+
+type GetTargetPosition = (
+  args: ReviewPosition & { isOnText: boolean; lines: ReviewLine[] }
+) => ReviewPosition | null;
+
+export const getNextCharacter: GetTargetPosition = ({
+  isOnText,
+  lineIndex,
+  lines,
+  offset,
+}) => {
+  const nextOffset = isOnText ? offset + 1 : offset;
+
+  if (nextOffset < (lines[lineIndex]?.text.length ?? 0)) {
+    return { lineIndex, offset: nextOffset };
+  }
+
+  return lines[lineIndex + 1] ? { lineIndex: lineIndex + 1, offset: 0 } : null;
+};
+
+export const getPreviousCharacter: GetTargetPosition = ({
+  lineIndex,
+  lines,
+  offset,
+}) => {
+  if (offset > 0) {
+    return { lineIndex, offset: offset - 1 };
+  }
+
+  const previousLine = lines[lineIndex - 1];
+
+  return previousLine
+    ? { lineIndex: lineIndex - 1, offset: previousLine.text.length - 1 }
+    : null;
+};
+
+export const getNextWord: GetTargetPosition = ({
+  isOnText,
+  lineIndex,
+  lines,
+  offset,
+}) => {
+  const nextWord = getWords(lines[lineIndex]?.text ?? "").find(({ start }) =>
+    isOnText ? start > offset : start >= offset
+  );
+
+  if (nextWord) {
+    return { lineIndex, offset: nextWord.start };
+  }
+
+  const nextLineIndex = lines.findIndex(
+    ({ text }, index) => index > lineIndex && getWords(text).length
+  );
+
+  return nextLineIndex === -1
+    ? null
+    : {
+        lineIndex: nextLineIndex,
+        offset: getWords(lines[nextLineIndex].text)[0].start,
+      };
+};
+
+export const getPreviousWord: GetTargetPosition = ({
+  lineIndex,
+  lines,
+  offset,
+}) => {
+  const words = getWords(lines[lineIndex]?.text ?? "");
+  const currentWordStart =
+    words.find(({ end, start }) => start <= offset && offset < end)?.start ??
+    offset;
+  const previousWord = words.findLast(({ start }) => start < currentWordStart);
+
+  if (previousWord) {
+    return { lineIndex, offset: previousWord.start };
+  }
+
+  const previousLineIndex = lines.findLastIndex(
+    ({ text }, index) => index < lineIndex && getWords(text).length
+  );
+
+  return previousLineIndex === -1
+    ? null
+    : {
+        lineIndex: previousLineIndex,
+        offset: getWords(lines[previousLineIndex].text).at(-1)!.start,
+      };
+};
+
+export const getNextLine: GetTargetPosition = ({
+  isOnText,
+  lineIndex,
+  lines,
+}) => {
+  const nextLineIndex = isOnText ? lineIndex + 1 : lineIndex;
+
+  return lines[nextLineIndex] ? { lineIndex: nextLineIndex, offset: 0 } : null;
+};
+
+export const getPreviousLine: GetTargetPosition = ({ lineIndex, lines }) =>
+  lines[lineIndex - 1] ? { lineIndex: lineIndex - 1, offset: 0 } : null;
+
+export function moveReviewCursor(
+  getTargetPosition: GetTargetPosition,
+  getSpokenPhrase: GetReviewSpokenPhrase
+) {
+  return function moveReviewCursorInner({
+    currentIndex,
+    reviewOffset,
+    tree,
+  }: Required<VirtualCommandArgs>): VirtualCommandResult | null {
+    const lines = getReviewLines(tree);
+    const targetPosition = getTargetPosition({
+      ...getReviewPosition({ currentIndex, lines, reviewOffset }),
+      lines,
+    });
+
+    if (!targetPosition) {
+      return null;
+    }
+
+    return {
+      ...getReviewPositionNode({ ...targetPosition, lines }),
+      // The target position is always on a character of a word in the line.
+      spokenPhrase: getSpokenPhrase({ ...targetPosition, lines })!,
+    };
+  };
+}
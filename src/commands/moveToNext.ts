@@ -0,0 +1,24 @@
+import type { NodeMatcher, VirtualCommandArgs } from "./types";
+import { getIndexFilters } from "./getIndexFilters";
+import { getNextIndexByRoleAndAttributes } from "./getNextIndexByRoleAndAttributes";
+
+export interface MoveToNext extends VirtualCommandArgs, NodeMatcher {}
+
+/**
+ * Moves to the next node which matches all of the given role, accessible
+ * name, description, value and state filters, wrapping around past the end.
+ */
+export function moveToNext({
+  currentIndex,
+  description,
+  name,
+  profile,
+  role,
+  state,
+  tree,
+  value,
+}: MoveToNext) {
+  return getNextIndexByRoleAndAttributes(
+    getIndexFilters({ description, name, role, state, value })
+  )({ currentIndex, profile, tree });
+}
@@ -0,0 +1,25 @@
+import type { NodeMatcher, VirtualCommandArgs } from "./types";
+import { getIndexFilters } from "./getIndexFilters";
+import { getPreviousIndexByRoleAndAttributes } from "./getPreviousIndexByRoleAndAttributes";
+
+export interface MoveToPrevious extends VirtualCommandArgs, NodeMatcher {}
+
+/**
+ * Moves to the previous node which matches all of the given role, accessible
+ * name, description, value and state filters, wrapping around past the
+ * start.
+ */
+export function moveToPrevious({
+  currentIndex,
+  description,
+  name,
+  profile,
+  role,
+  state,
+  tree,
+  value,
+}: MoveToPrevious) {
+  return getPreviousIndexByRoleAndAttributes(
+    getIndexFilters({ description, name, role, state, value })
+  )({ currentIndex, profile, tree });
+}
@@ -0,0 +1,89 @@
+import type { Table, TableCell } from "./getTable";
+import type { VirtualCommandArgs, VirtualCommandResult } from "./types";
+import { getTable } from "./getTable";
+import { getTableCellSpokenPhrase } from "./getTableCellSpokenPhrase";
+
+type GetTargetCell = ({
+  currentCell,
+  table,
+}: {
+  currentCell: TableCell;
+  table: Table;
+}) => TableCell | undefined;
+
+const getColumn = ({ currentCell, table }: Parameters<GetTargetCell>[0]) =>
+  table.grid.map((row) => row[currentCell.columnIndex]);
+
+export const getCellAbove: GetTargetCell = ({ currentCell, table }) =>
+  table.grid[currentCell.rowIndex - 1]?.[currentCell.columnIndex];
+
+export const getCellBelow: GetTargetCell = ({ currentCell, table }) =>
+  table.grid[currentCell.rowIndex + currentCell.rowSpan]?.[
+    currentCell.columnIndex
+  ];
+
+export const getCellLeft: GetTargetCell = ({ currentCell, table }) =>
+  table.grid[currentCell.rowIndex][currentCell.columnIndex - 1];
+
+export const getCellRight: GetTargetCell = ({ currentCell, table }) =>
+  table.grid[currentCell.rowIndex][
+    currentCell.columnIndex + currentCell.columnSpan
+  ];
+
+export const getFirstCellInRow: GetTargetCell = ({ currentCell, table }) =>
+  table.grid[currentCell.rowIndex].find(Boolean);
+
+export const getLastCellInRow: GetTargetCell = ({ currentCell, table }) =>
+  table.grid[currentCell.rowIndex].findLast(Boolean);
+
+export const getFirstCellInColumn: GetTargetCell = (args) =>
+  getColumn(args).find(Boolean);
+
+export const getLastCellInColumn: GetTargetCell = (args) =>
+  getColumn(args).findLast(Boolean);
+
+export function moveToTableCell(getTargetCell: GetTargetCell) {
+  return function moveToTableCellInner({
+    container,
+    currentIndex,
+    profile,
+    tree,
+  }: VirtualCommandArgs): VirtualCommandResult | null {
+    const currentAccessibilityNode = tree[currentIndex];
+
+    if (!currentAccessibilityNode) {
+      return null;
+    }
+
+    const table = getTable(currentAccessibilityNode);
+
+    if (!table) {
+      return null;
+    }
+
+    // When the cursor is on the table itself rather than one of its cells we
+    // move into the first cell of the table.
+    const targetCell = table.currentCell
+      ? getTargetCell({ currentCell: table.currentCell, table })
+      : table.cells[0];
+
+    if (!targetCell) {
+      return null;
+    }
+
+    // Every cell of the table is in the flattened tree, as cells always have
+    // a role.
+    const index = tree.findIndex(({ node }) => node === targetCell.node);
+
+    return {
+      index,
+      spokenPhrase: getTableCellSpokenPhrase({
+        accessibilityNode: tree[index],
+        cell: targetCell,
+        container,
+        profile,
+        table,
+      }),
+    };
+  };
+}
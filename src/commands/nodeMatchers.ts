@@ -1,5 +1,5 @@
+import type { AriaAttributes, TextMatcher } from "./types";
 import { AccessibilityNode } from "../createAccessibilityTree";
-import { AriaAttributes } from "./types";
 
 export function matchesRoles(
   node: AccessibilityNode,
@@ -28,3 +28,23 @@ export function matchesAccessibleAttributes(
 
   return true;
 }
+
+export function matchesText(text: string, matcher?: TextMatcher) {
+  if (typeof matcher === "undefined") {
+    return true;
+  }
+
+  if (typeof matcher === "string") {
+    return text === matcher;
+  }
+
+  if (matcher instanceof RegExp) {
+    // Reset any state left by a previous match with a global or sticky
+    // regular expression.
+    matcher.lastIndex = 0;
+
+    return matcher.test(text);
+  }
+
+  return matcher(text);
+}
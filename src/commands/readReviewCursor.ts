@@ -0,0 +1,26 @@
+import { getReviewLines, getReviewPosition } from "./getReviewLines";
+import type { VirtualCommandArgs, VirtualCommandResult } from "./types";
+import type { GetReviewSpokenPhrase } from "./getReviewSpokenPhrase";
+
+export function readReviewCursor(getSpokenPhrase: GetReviewSpokenPhrase) {
+  return function readReviewCursorInner({
+    currentIndex,
+    reviewOffset,
+    tree,
+  }: Required<VirtualCommandArgs>): VirtualCommandResult | null {
+    const lines = getReviewLines(tree);
+    const { isOnText, ...position } = getReviewPosition({
+      currentIndex,
+      lines,
+      reviewOffset,
+    });
+
+    if (!isOnText) {
+      return null;
+    }
+
+    const spokenPhrase = getSpokenPhrase({ ...position, lines });
+
+    return spokenPhrase ? { spokenPhrase } : null;
+  };
+}
@@ -0,0 +1,53 @@
+import type { Table, TableCell } from "./getTable";
+import type { VirtualCommandArgs, VirtualCommandResult } from "./types";
+import { getTable } from "./getTable";
+
+type GetCells = ({
+  currentCell,
+  table,
+}: {
+  currentCell: TableCell;
+  table: Table;
+}) => (TableCell | undefined)[];
+
+export const getCellsInRow: GetCells = ({ currentCell, table }) =>
+  table.grid[currentCell.rowIndex];
+
+export const getCellsInColumn: GetCells = ({ currentCell, table }) =>
+  table.grid.map((row) => row[currentCell.columnIndex]);
+
+export function readTableCells(getCells: GetCells) {
+  return function readTableCellsInner({
+    currentIndex,
+    tree,
+  }: VirtualCommandArgs): VirtualCommandResult | null {
+    const currentAccessibilityNode = tree[currentIndex];
+
+    if (!currentAccessibilityNode) {
+      return null;
+    }
+
+    const table = getTable(currentAccessibilityNode);
+    const currentCell = table?.currentCell;
+
+    if (!table || !currentCell) {
+      return null;
+    }
+
+    // Cells spanning multiple slots are only read once.
+    const cells = Array.from(
+      new Set(getCells({ currentCell, table }).filter(Boolean))
+    ) as TableCell[];
+
+    const spokenPhrase = cells
+      .map(({ accessibleName }) => accessibleName)
+      .filter(Boolean)
+      .join(", ");
+
+    if (!spokenPhrase) {
+      return null;
+    }
+
+    return { spokenPhrase };
+  };
+}
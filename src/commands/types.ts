@@ -1,9 +1,109 @@
 import { AccessibilityNode } from "../createAccessibilityTree";
+import type { Mode } from "../mode";
+import type { Profile } from "../profiles/index";
 
 export type AriaAttributes = Record<string, string>;
 
+/**
+ * Matches text either exactly, against a regular expression, or with a
+ * predicate.
+ */
+export type TextMatcher = string | RegExp | ((text: string) => boolean);
+
+export interface NodeMatcher {
+  /** Matches a node only if the node has this role, or any of these roles */
+  role?: string | Readonly<string[]>;
+
+  /** Matches a node only if its accessible name matches */
+  name?: TextMatcher;
+
+  /** Matches a node only if its accessible description matches */
+  description?: TextMatcher;
+
+  /** Matches a node only if its accessible value matches */
+  value?: TextMatcher;
+
+  /**
+   * Matches a node only if the node has **all** of these aria attribute
+   * values, e.g. `{ "aria-checked": "false" }`
+   */
+  state?: Readonly<AriaAttributes>;
+}
+
 export interface VirtualCommandArgs {
   currentIndex: number;
   container: Node;
+  profile: Profile;
+  /**
+   * The offset of the review cursor within the text of the current node.
+   */
+  reviewOffset?: number;
   tree: AccessibilityNode[];
 }
+
+export interface VirtualCommandResult {
+  /**
+   * The index of the node in the tree to move the Virtual Screen Reader
+   * cursor to. When omitted the cursor stays where it is.
+   */
+  index?: number;
+
+  /**
+   * The phrase to announce in place of the default spoken phrase for the
+   * node at `index`.
+   */
+  spokenPhrase?: string;
+
+  /**
+   * The offset of the review cursor within the text of the node at `index`,
+   * or of the current node when `index` is omitted. Moving the cursor to a
+   * node otherwise resets it to the start of the node's text.
+   */
+  reviewOffset?: number;
+
+  /**
+   * Further phrases to announce after the cursor has moved, or in place of
+   * moving it.
+   */
+  spokenPhrases?: string[];
+
+  /**
+   * A node to move focus to, after which the cursor follows focus as usual.
+   */
+  focusNode?: Node;
+
+  /**
+   * The mode to switch to, as if the user had chosen to interact with the
+   * page, `"focus"`, or stop interacting with it, `"browse"`.
+   */
+  mode?: Mode;
+}
+
+/**
+ * A Virtual Screen Reader command, which is passed the accessibility tree and
+ * the index of the cursor in it along with any options passed to
+ * `virtual.perform()`, and returns either the index of the node to move the
+ * cursor to, `null` to not move it, or a `VirtualCommandResult`.
+ */
+export type VirtualCommand<Options extends object = object> = (
+  args: VirtualCommandArgs & Options
+) => number | null | undefined | VirtualCommandResult;
+
+/**
+ * The commands registered using `virtual.registerCommand()`.
+ *
+ * Augment this interface to type check `virtual.perform()` for your own
+ * commands:
+ *
+ * ```ts
+ * import type { VirtualCommand } from "@guidepup/virtual-screen-reader";
+ *
+ * declare module "@guidepup/virtual-screen-reader" {
+ *   interface VirtualCustomCommands {
+ *     moveToNextCard: VirtualCommand<{ unread?: boolean }>;
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+export interface VirtualCustomCommands {}
@@ -0,0 +1,103 @@
+import { getCellCoordinates, getTable, tableRoles } from "./getTable";
+import type { VirtualCommandArgs, VirtualCommandResult } from "./types";
+import type { AccessibilityNode } from "../createAccessibilityTree";
+import { getAncestors } from "../getAncestors";
+import { getSpokenPhrase } from "../getSpokenPhrase";
+import { isContainerRole } from "../isContainerRole";
+import { isDialogRole } from "../isDialogRole";
+
+const DOCUMENT = "document";
+const INSIDE = "inside";
+
+const tableRolesSet = new Set<string>(tableRoles);
+
+/**
+ * REF:
+ * - https://www.w3.org/TR/wai-aria-1.2/#aria-posinset
+ * - https://www.w3.org/TR/wai-aria-1.2/#aria-setsize
+ */
+const getPositionInSetPhrase = ({
+  accessibleAttributeToLabelMap,
+}: AccessibilityNode) => {
+  const position = accessibleAttributeToLabelMap["aria-posinset"]?.value;
+  const size = accessibleAttributeToLabelMap["aria-setsize"]?.value;
+
+  return position && size && size !== "-1" ? `${position} of ${size}` : "";
+};
+
+const getTablePositionPhrase = (accessibilityNode: AccessibilityNode) => {
+  const table = getTable(accessibilityNode);
+
+  if (!table?.currentCell) {
+    return { tableNode: null, tablePositionPhrase: "" };
+  }
+
+  const { columnIndex, rowIndex } = getCellCoordinates(table.currentCell);
+  const rowCount = table.grid.length;
+  const columnCount = Math.max(0, ...table.grid.map((row) => row.length));
+
+  return {
+    tableNode: table.node,
+    tablePositionPhrase: `row ${rowIndex} of ${rowCount}, column ${columnIndex} of ${columnCount}`,
+  };
+};
+
+/**
+ * Screen readers can announce where the cursor is on request, e.g. the
+ * VoiceOver "describe where the VoiceOver cursor is" command or NVDA
+ * reporting the ancestry of the current object, so users can re-orientate
+ * themselves without moving the cursor.
+ *
+ * The containers around the current node are announced from the outermost
+ * inwards, each followed by the position of the item within it.
+ *
+ * REF:
+ * - https://support.apple.com/guide/voiceover/general-commands-cpvokys01/mac
+ * - https://www.nvaccess.org/files/nvda/documentation/userGuide.html#ReportCurrentFocus
+ */
+export function whereAmI({
+  currentIndex,
+  profile,
+  tree,
+}: VirtualCommandArgs): VirtualCommandResult | null {
+  const currentAccessibilityNode = tree[currentIndex];
+
+  if (!currentAccessibilityNode) {
+    return null;
+  }
+
+  const { tableNode, tablePositionPhrase } = getTablePositionPhrase(
+    currentAccessibilityNode
+  );
+
+  // The tree ancestors don't retain their accessible attributes, but their
+  // entries in the flattened tree do. Ancestors which aren't announced have
+  // no entry, and aren't announced here either.
+  const ancestors = getAncestors(currentAccessibilityNode).flatMap(
+    (ancestor) =>
+      tree.find(
+        ({ isContainerEnd, node }) => !isContainerEnd && node === ancestor.node
+      ) ?? []
+  );
+
+  const phrases = [
+    ...ancestors.flatMap((ancestor) => {
+      const { node, role } = ancestor;
+
+      return [
+        isContainerRole(role) || isDialogRole(role)
+          ? getSpokenPhrase(ancestor, profile)
+          : "",
+        tableRolesSet.has(role) && node === tableNode
+          ? tablePositionPhrase
+          : "",
+        getPositionInSetPhrase(ancestor),
+      ];
+    }),
+    getPositionInSetPhrase(currentAccessibilityNode),
+  ];
+
+  const spokenPhrase = phrases.filter(Boolean).join(", ") || DOCUMENT;
+
+  return { spokenPhrase: `${INSIDE} ${spokenPhrase}` };
+}
@@ -5,6 +5,7 @@ import { getNodeByIdRef } from "./getNodeByIdRef";
 import { isDialogRole } from "./isDialogRole";
 import { isElement } from "./isElement";
 import { isHiddenFromAccessibilityTree } from "./isHiddenFromAccessibilityTree";
+import { isNativeModalDialog } from "./isNativeModalDialog";
 
 export interface AccessibilityNode {
   accessibleAttributeLabels: string[];
@@ -15,6 +16,7 @@ export interface AccessibilityNode {
   allowedAccessibilityChildRoles: string[];
   alternateReadingOrderParents: Node[];
   childrenPresentational: boolean;
+  isContainerEnd?: boolean;
   isInert: boolean;
   node: Node;
   parentAccessibilityNodeTree: AccessibilityNodeTree | null;
@@ -293,6 +295,18 @@ function growTree(
   return tree;
 }
 
+/**
+ * While a `<dialog>` element is open as a modal, the rest of the document is
+ * blocked by it, and so is inert. The dialog itself escapes the inertness of
+ * its ancestors.
+ *
+ * REF: https://html.spec.whatwg.org/multipage/interaction.html#modal-dialogs-and-inert-subtrees
+ */
+const getIsBlockedByModalDialog = (node: Node) =>
+  Array.from(node.ownerDocument?.querySelectorAll("dialog[open]") ?? []).some(
+    (dialog) => isNativeModalDialog(dialog) && !dialog.contains(node)
+  );
+
 export function createAccessibilityTree(
   node: Node | null
 ): AccessibilityNodeTree | null {
@@ -317,7 +331,7 @@ export function createAccessibilityTree(
     allowedAccessibilityRoles: [],
     node,
     inheritedImplicitPresentational: false,
-    inheritedImplicitInert: false,
+    inheritedImplicitInert: getIsBlockedByModalDialog(node),
   });
 
   const tree = growTree(
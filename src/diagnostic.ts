@@ -0,0 +1,38 @@
+type ValueOf<T> = T[keyof T];
+
+export const DIAGNOSTIC_CODE = {
+  EVENT_HANDLER_ERROR: "event-handler-error",
+  LIVE_REGION_ADDED_WITH_CONTENT: "live-region-added-with-content",
+} as const;
+
+export type DiagnosticCode = ValueOf<typeof DIAGNOSTIC_CODE>;
+
+export const diagnosticMessages: Record<DiagnosticCode, string> = {
+  [DIAGNOSTIC_CODE.EVENT_HANDLER_ERROR]:
+    "An event handler added using virtual.on() threw an error, which was ignored so that the Virtual Screen Reader could carry on responding to the page.",
+  [DIAGNOSTIC_CODE.LIVE_REGION_ADDED_WITH_CONTENT]:
+    "The live region was added to the page with its content already inside, which screen readers do not announce. Add the live region to the page before updating its content.",
+};
+
+export interface Diagnostic {
+  /**
+   * Identifies the kind of problem.
+   */
+  code: DiagnosticCode;
+
+  /**
+   * A CSS selector identifying the node, or its parent element for text
+   * nodes.
+   */
+  cssPath: string;
+
+  /**
+   * Explains why the Virtual Screen Reader behaved as it did.
+   */
+  message: string;
+
+  /**
+   * The DOM node the diagnostic is for.
+   */
+  node: Node | null;
+}
@@ -0,0 +1,124 @@
+import type { AccessibilityNode } from "./createAccessibilityTree";
+import { tableRoles } from "./commands/getTable";
+
+type ValueOf<T> = T[keyof T];
+
+export const ELEMENTS_LIST_KIND = {
+  FORM_CONTROLS: "formControls",
+  HEADINGS: "headings",
+  IMAGES: "images",
+  LANDMARKS: "landmarks",
+  LINKS: "links",
+  TABLES: "tables",
+} as const;
+
+export type ElementsListKind = ValueOf<typeof ELEMENTS_LIST_KIND>;
+
+export interface ElementsListItem {
+  /**
+   * The announced labels of the item's accessible attributes, e.g. its
+   * heading level or whether a checkbox is checked.
+   */
+  accessibleAttributeLabels: string[];
+
+  /**
+   * The accessible name of the item.
+   */
+  accessibleName: string;
+
+  /**
+   * The level of a heading, or `undefined` for other items.
+   */
+  level?: number;
+
+  /**
+   * The DOM node of the item.
+   */
+  node: Node;
+
+  /**
+   * The role of the item.
+   */
+  role: string;
+
+  /**
+   * The phrase spoken by the Virtual Screen Reader for the item.
+   */
+  spokenPhrase: string;
+}
+
+/**
+ * Screen readers list the elements of a page by kind, e.g. the VoiceOver
+ * rotor or the NVDA Elements List, so users can survey and jump between them.
+ *
+ * REF:
+ * - https://support.apple.com/guide/voiceover/use-the-voiceover-rotor-mchlp2719/mac
+ * - https://www.nvaccess.org/files/nvda/documentation/userGuide.html#ElementsList
+ */
+const elementsListRoles: Record<ElementsListKind, Set<string>> = {
+  [ELEMENTS_LIST_KIND.FORM_CONTROLS]: new Set([
+    "button",
+    "checkbox",
+    "combobox",
+    "listbox",
+    "radio",
+    "searchbox",
+    "slider",
+    "spinbutton",
+    "switch",
+    "textbox",
+  ]),
+  [ELEMENTS_LIST_KIND.HEADINGS]: new Set(["heading"]),
+  [ELEMENTS_LIST_KIND.IMAGES]: new Set(["image"]),
+  /**
+   * REF: https://www.w3.org/TR/wai-aria-1.2/#landmark_roles
+   */
+  [ELEMENTS_LIST_KIND.LANDMARKS]: new Set([
+    "banner",
+    "complementary",
+    "contentinfo",
+    "form",
+    "main",
+    "navigation",
+    "region",
+    "search",
+  ]),
+  [ELEMENTS_LIST_KIND.LINKS]: new Set(["link"]),
+  [ELEMENTS_LIST_KIND.TABLES]: new Set(tableRoles),
+};
+
+const getLevel = ({
+  accessibleAttributeToLabelMap,
+  role,
+}: AccessibilityNode) => {
+  const level = accessibleAttributeToLabelMap["aria-level"]?.value;
+
+  return role === "heading" && level ? parseInt(level, 10) : undefined;
+};
+
+export const getElementsListNodes = ({
+  kind,
+  tree,
+}: {
+  kind: ElementsListKind;
+  tree: AccessibilityNode[];
+}) => {
+  // Guards against an unknown kind from JavaScript users.
+  const roles = elementsListRoles[kind] ?? new Set<string>();
+
+  return tree.filter(
+    ({ isContainerEnd, role }) => !isContainerEnd && roles.has(role)
+  );
+};
+
+export const getElementsListItem = (
+  accessibilityNode: AccessibilityNode,
+  spokenPhrase: string
+): ElementsListItem => ({
+  accessibleAttributeLabels: accessibilityNode.accessibleAttributeLabels,
+  accessibleName: accessibilityNode.accessibleName,
+  level: getLevel(accessibilityNode),
+  node: accessibilityNode.node,
+  role: accessibilityNode.role,
+  spokenPhrase,
+});
@@ -1,3 +1,31 @@
+export const ERR_DIALOG_ALREADY_OPEN =
+  "The dialog is already open as a non-modal dialog or as a modal dialog";
 export const ERR_NOT_IMPLEMENTED = "Not implemented";
+export const ERR_VIRTUAL_COMMAND_BUILT_IN =
+  "A built-in Virtual Screen Reader command can't be replaced";
+export const ERR_VIRTUAL_ELEMENT_NOT_FOUND =
+  "The elements list has no element at the provided index";
 export const ERR_VIRTUAL_MISSING_CONTAINER = "A container was not provided";
+export const ERR_VIRTUAL_UNKNOWN_PROFILE =
+  "The profile is not a supported screen reader profile, use one of";
 export const ERR_VIRTUAL_NOT_STARTED = "Virtual Screen Reader was not started";
+export const ERR_VIRTUAL_NAVIGATION_FAILED =
+  "Virtual Screen Reader navigation failed";
+
+/**
+ * Thrown when the Virtual Screen Reader cursor can't be moved as asked and
+ * `strictNavigation` is enabled, e.g. when there is no next heading.
+ */
+export class VirtualNavigationError extends Error {
+  /**
+   * The phrase spoken for the failed navigation, e.g. `"no next heading"`.
+   */
+  spokenPhrase: string;
+
+  constructor(spokenPhrase: string) {
+    super(`${ERR_VIRTUAL_NAVIGATION_FAILED}: ${spokenPhrase}`);
+
+    this.name = "VirtualNavigationError";
+    this.spokenPhrase = spokenPhrase;
+  }
+}
@@ -0,0 +1,56 @@
+import type { AccessibilityNode } from "./createAccessibilityTree";
+import type { Announcement } from "./announcement";
+import type { Diagnostic } from "./diagnostic";
+import type { Mode } from "./mode";
+
+export interface CursorMoveEvent {
+  /**
+   * The accessibility node the Virtual Screen Reader cursor moved to.
+   */
+  accessibilityNode: AccessibilityNode;
+
+  /**
+   * The accessibility node the Virtual Screen Reader cursor moved from, or
+   * `null` when the Virtual Screen Reader has just started.
+   */
+  previousAccessibilityNode: AccessibilityNode | null;
+}
+
+export interface FocusChangeEvent {
+  /**
+   * The accessibility node of the element which received focus.
+   */
+  accessibilityNode: AccessibilityNode;
+
+  /**
+   * The element which received focus.
+   */
+  node: Node;
+}
+
+export interface ModeChangeEvent {
+  /**
+   * The mode the Virtual Screen Reader switched to.
+   */
+  mode: Mode;
+
+  /**
+   * The mode the Virtual Screen Reader switched from.
+   */
+  previousMode: Mode;
+}
+
+export interface VirtualEventMap {
+  announcement: Announcement;
+  cursorMove: CursorMoveEvent;
+  diagnostic: Diagnostic;
+  focusChange: FocusChangeEvent;
+  liveRegion: Announcement;
+  modeChange: ModeChangeEvent;
+}
+
+export type VirtualEventName = keyof VirtualEventMap;
+
+export type VirtualEventHandler<T extends VirtualEventName> = (
+  event: VirtualEventMap[T]
+) => void;
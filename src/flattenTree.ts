@@ -4,6 +4,7 @@ import type {
 } from "./createAccessibilityTree";
 import { getAccessibleAttributeLabels } from "./getNodeAccessibilityData/getAccessibleAttributeLabels";
 import type { HTMLElementWithValue } from "./getNodeAccessibilityData/getAccessibleValue";
+import type { Profile } from "./profiles/index";
 
 export const END_OF_ROLE_PREFIX = "end of";
 export const END_OF_NO_ROLE_PREFIX = "end";
@@ -38,11 +39,14 @@ function shouldIgnoreChildren(tree: AccessibilityNodeTree) {
 export function flattenTree(
   container: Node,
   tree: AccessibilityNodeTree,
-  parentAccessibilityNodeTree: AccessibilityNodeTree | null
+  parentAccessibilityNodeTree: AccessibilityNodeTree | null,
+  profile: Profile
 ): AccessibilityNode[] {
   const { children, ...treeNode } = tree;
 
   treeNode.parentAccessibilityNodeTree = parentAccessibilityNodeTree;
+  treeNode.spokenRole =
+    profile.roleLabels[treeNode.spokenRole] ?? treeNode.spokenRole;
 
   const { accessibleAttributeLabels, accessibleAttributeToLabelMap } =
     getAccessibleAttributeLabels({
@@ -58,6 +62,7 @@ export function flattenTree(
 
   const isAnnounced =
     !treeNodeWithAttributeLabels.isInert &&
+    !profile.unannouncedRoles.includes(treeNodeWithAttributeLabels.role) &&
     (!!treeNodeWithAttributeLabels.accessibleName ||
       !!treeNodeWithAttributeLabels.accessibleDescription ||
       treeNodeWithAttributeLabels.accessibleAttributeLabels.length > 0 ||
@@ -68,10 +73,15 @@ export function flattenTree(
   const flattenedTree = ignoreChildren
     ? []
     : children.flatMap((child) =>
-        flattenTree(container, child, {
-          ...treeNodeWithAttributeLabels,
-          children,
-        })
+        flattenTree(
+          container,
+          child,
+          {
+            ...treeNodeWithAttributeLabels,
+            children,
+          },
+          profile
+        )
       );
 
   const isRoleContainer =
@@ -81,12 +91,13 @@ export function flattenTree(
     flattenedTree.unshift(treeNodeWithAttributeLabels);
   }
 
-  if (isRoleContainer) {
+  if (isRoleContainer && profile.formatContainerEnd) {
     flattenedTree.push({
       ...treeNodeWithAttributeLabels,
-      spokenRole: treeNodeWithAttributeLabels.spokenRole
-        ? `${END_OF_ROLE_PREFIX} ${treeNodeWithAttributeLabels.spokenRole}`
-        : END_OF_NO_ROLE_PREFIX,
+      isContainerEnd: true,
+      spokenRole: profile.formatContainerEnd(
+        treeNodeWithAttributeLabels.spokenRole
+      ),
     });
   }
 
@@ -0,0 +1,22 @@
+import type {
+  AccessibilityNode,
+  AccessibilityNodeTree,
+} from "./createAccessibilityTree";
+
+/**
+ * Returns the accessibility tree ancestors of a node, ordered from the
+ * outermost ancestor to the immediate parent.
+ */
+export function getAncestors(
+  accessibilityNode: Pick<AccessibilityNode, "parentAccessibilityNodeTree">
+) {
+  const ancestors: AccessibilityNodeTree[] = [];
+  let ancestor = accessibilityNode.parentAccessibilityNodeTree;
+
+  while (ancestor) {
+    ancestors.unshift(ancestor);
+    ancestor = ancestor.parentAccessibilityNodeTree;
+  }
+
+  return ancestors;
+}
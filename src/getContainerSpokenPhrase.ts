@@ -0,0 +1,81 @@
+import type {
+  AccessibilityNode,
+  AccessibilityNodeTree,
+} from "./createAccessibilityTree";
+import { getTableSize, tableRoles } from "./commands/getTable";
+import { getSpokenPhrase } from "./getSpokenPhrase";
+import type { Profile } from "./profiles/index";
+
+const menuItemRoles = new Set([
+  "menuitem",
+  "menuitemcheckbox",
+  "menuitemradio",
+]);
+
+const containerRoleToItemRolesMap: Record<string, Set<string>> = {
+  list: new Set(["listitem"]),
+  menu: menuItemRoles,
+  menubar: menuItemRoles,
+};
+
+const tableRolesSet = new Set<string>(tableRoles);
+
+const pluralize = (count: number, singular: string, plural: string) =>
+  `${count} ${count === 1 ? singular : plural}`;
+
+function countItems(
+  tree: AccessibilityNodeTree,
+  itemRoles: Set<string>
+): number {
+  return tree.children.reduce(
+    (count, child) =>
+      count + (itemRoles.has(child.role) ? 1 : countItems(child, itemRoles)),
+    0
+  );
+}
+
+function getContainerSizeLabel(tree: AccessibilityNodeTree) {
+  if (tableRolesSet.has(tree.role)) {
+    const { columnCount, rowCount } = getTableSize(tree);
+
+    return [
+      pluralize(rowCount, "row", "rows"),
+      pluralize(columnCount, "column", "columns"),
+    ].join(", ");
+  }
+
+  const itemRoles = containerRoleToItemRolesMap[tree.role];
+
+  if (!itemRoles) {
+    return "";
+  }
+
+  return pluralize(countItems(tree, itemRoles), "item", "items");
+}
+
+/**
+ * When the cursor moves into the middle of a container, such as when
+ * following a link, jumping to a heading, or when focus moves, screen readers
+ * announce the containers being entered along with a summary of their size
+ * ahead of the item itself.
+ */
+export function getContainerSpokenPhrase({
+  accessibilityNode,
+  profile,
+  tree,
+}: {
+  accessibilityNode: AccessibilityNode;
+  profile: Profile;
+  tree: AccessibilityNodeTree;
+}) {
+  return getSpokenPhrase(
+    {
+      ...accessibilityNode,
+      accessibleAttributeLabels: [
+        ...accessibilityNode.accessibleAttributeLabels,
+        getContainerSizeLabel(tree),
+      ].filter(Boolean),
+    },
+    profile
+  );
+}
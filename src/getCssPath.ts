@@ -0,0 +1,46 @@
+import { getLocalName } from "./getLocalName";
+import { isElement } from "./isElement";
+
+const SIMPLE_ID_REGEX = /^[A-Za-z][\w-]*$/;
+
+function getSelector(element: Element) {
+  const localName = getLocalName(element);
+  const parent = element.parentElement;
+
+  if (!parent) {
+    return localName;
+  }
+
+  const siblingsOfSameType = Array.from(parent.children).filter(
+    (sibling) => getLocalName(sibling) === localName
+  );
+
+  if (siblingsOfSameType.length === 1) {
+    return localName;
+  }
+
+  return `${localName}:nth-of-type(${siblingsOfSameType.indexOf(element) + 1})`;
+}
+
+/**
+ * Get a CSS selector which uniquely identifies the element, or for other
+ * nodes such as text nodes the parent element, starting from the nearest
+ * ancestor with an id or otherwise the root element.
+ */
+export function getCssPath(node: Node | null) {
+  let element = node && (isElement(node) ? node : node.parentElement);
+  const selectors: string[] = [];
+
+  while (element) {
+    if (element.id && SIMPLE_ID_REGEX.test(element.id)) {
+      selectors.unshift(`#${element.id}`);
+
+      break;
+    }
+
+    selectors.unshift(getSelector(element));
+    element = element.parentElement;
+  }
+
+  return selectors.join(" > ");
+}
@@ -0,0 +1,23 @@
+import type { AccessibilityNode } from "./createAccessibilityTree";
+import { getAncestors } from "./getAncestors";
+
+/**
+ * Returns the article of a feed which contains the node, if any.
+ *
+ * REF: https://www.w3.org/TR/wai-aria-1.2/#feed
+ */
+export function getFeedArticle(
+  accessibilityNode: Pick<
+    AccessibilityNode,
+    "node" | "parentAccessibilityNodeTree" | "role"
+  >
+) {
+  const feedArticle = [...getAncestors(accessibilityNode), accessibilityNode]
+    .filter(
+      ({ parentAccessibilityNodeTree, role }) =>
+        role === "article" && parentAccessibilityNodeTree?.role === "feed"
+    )
+    .at(-1);
+
+  return feedArticle?.node ?? null;
+}
@@ -1,7 +1,8 @@
+import type { AccessibilityNodeTree } from "./createAccessibilityTree";
+import type { AccessibilityNodeTreeMap } from "./mapAccessibilityNodeTree";
 import { getAccessibleName } from "./getNodeAccessibilityData/getAccessibleName";
 import { getAccessibleValue } from "./getNodeAccessibilityData/getAccessibleValue";
 import { getElementFromNode } from "./getElementFromNode";
-import { getRole } from "./getNodeAccessibilityData/getRole";
 import { isElement } from "./isElement";
 import { sanitizeString } from "./sanitizeString";
 
@@ -20,7 +21,7 @@ type ValueOf<T> = T[keyof T];
  * Live region attributes:
  *
  * - aria-atomic
- * - TODO: aria-busy
+ * - aria-busy
  * - aria-live
  * - aria-relevant
  *
@@ -56,54 +57,89 @@ const DEFAULT_ATOMIC = false;
 const DEFAULT_LIVE = LIVE.OFF;
 const DEFAULT_RELEVANT = [RELEVANT.ADDITIONS, RELEVANT.TEXT];
 
-function getSpokenPhraseForNode(node: Node) {
+const TEXT_NODE = 3;
+
+/**
+ * The text content of the node as exposed in the accessibility tree, which
+ * excludes hidden descendants and includes owned nodes.
+ */
+function getAccessibilityNodeTreeText({
+  children,
+  node,
+}: AccessibilityNodeTree): string {
+  if (node.nodeType === TEXT_NODE) {
+    return node.textContent ?? "";
+  }
+
+  return children.map(getAccessibilityNodeTreeText).join(" ");
+}
+
+/**
+ * Uses the same accessible name, value and content as when navigating to the
+ * node, falling back to computing them for nodes which are no longer in the
+ * accessibility tree, e.g. removed nodes.
+ */
+function getSpokenPhraseForNode(
+  node: Node,
+  accessibilityNodeTreeMap: AccessibilityNodeTreeMap
+) {
+  const accessibilityNodeTree =
+    accessibilityNodeTreeMap.get(node)?.accessibilityNodeTree;
+  const accessibleName =
+    accessibilityNodeTree?.accessibleName ?? getAccessibleName(node);
+  const accessibleValue =
+    accessibilityNodeTree?.accessibleValue ?? getAccessibleValue(node);
+
   return (
-    getAccessibleName(node) ||
-    getAccessibleValue(node) ||
-    // `node.textContent` is only `null` if the `node` is a `document` or a
-    // `doctype`. We don't consider either.
-    sanitizeString(node.textContent!)
+    accessibleName ||
+    accessibleValue ||
+    sanitizeString(
+      accessibilityNodeTree
+        ? getAccessibilityNodeTreeText(accessibilityNodeTree)
+        : // `node.textContent` is only `null` if the `node` is a `document`
+          // or a `doctype`. We don't consider either.
+          node.textContent!
+    )
   );
 }
 
-function getAllSpokenPhrase({
-  addedNodes,
-  removedNodes,
-  target,
-  type,
-}: {
+interface SpokenPhraseArgs {
+  accessibilityNodeTreeMap: AccessibilityNodeTreeMap;
   addedNodes: NodeList;
   removedNodes: NodeList;
   target: Node;
   type: MutationRecordType;
-}) {
+}
+
+function getAllSpokenPhrase(args: SpokenPhraseArgs) {
   return [
-    ...getAdditionsSpokenPhrase({
-      addedNodes,
-    }),
-    ...getRemovalsSpokenPhrase({
-      removedNodes,
-    }),
-    ...getTextSpokenPhrase({
-      addedNodes,
-      target,
-      type,
-    }),
+    ...getAdditionsSpokenPhrase(args),
+    ...getRemovalsSpokenPhrase(args),
+    ...getTextSpokenPhrase(args),
   ];
 }
 
-function getAdditionsSpokenPhrase({ addedNodes }: { addedNodes: NodeList }) {
-  return Array.from(addedNodes).filter(isElement).map(getSpokenPhraseForNode);
+function getAdditionsSpokenPhrase({
+  accessibilityNodeTreeMap,
+  addedNodes,
+}: Pick<SpokenPhraseArgs, "accessibilityNodeTreeMap" | "addedNodes">) {
+  return Array.from(addedNodes)
+    .filter(isElement)
+    .map((addedNode) =>
+      getSpokenPhraseForNode(addedNode, accessibilityNodeTreeMap)
+    );
 }
 
-function getRemovalsSpokenPhrase({ removedNodes }: { removedNodes: NodeList }) {
+function getRemovalsSpokenPhrase({
+  accessibilityNodeTreeMap,
+  removedNodes,
+}: Pick<SpokenPhraseArgs, "accessibilityNodeTreeMap" | "removedNodes">) {
   return Array.from(removedNodes).map(
-    (removedNode) => `removal: ${getSpokenPhraseForNode(removedNode)}`
+    (removedNode) =>
+      `removal: ${getSpokenPhraseForNode(removedNode, accessibilityNodeTreeMap)}`
   );
 }
 
-const TEXT_NODE = 3;
-
 /**
  * TODO: When text changes are denoted as relevant, user agents MUST monitor
  * any descendant node change that affects the text alternative computation of
@@ -115,14 +151,11 @@ const TEXT_NODE = 3;
  * the live region.
  */
 function getTextSpokenPhrase({
+  accessibilityNodeTreeMap,
   addedNodes,
   target,
   type,
-}: {
-  addedNodes: NodeList;
-  target: Node;
-  type: MutationRecordType;
-}) {
+}: Omit<SpokenPhraseArgs, "removedNodes">) {
   switch (type) {
     case "childList": {
       if (!addedNodes.length) {
@@ -131,10 +164,10 @@ function getTextSpokenPhrase({
 
       return Array.from(addedNodes)
         .filter((node) => node.nodeType === TEXT_NODE)
-        .map(getSpokenPhraseForNode);
+        .map((node) => getSpokenPhraseForNode(node, accessibilityNodeTreeMap));
     }
     case "characterData": {
-      return [getSpokenPhraseForNode(target)];
+      return [getSpokenPhraseForNode(target, accessibilityNodeTreeMap)];
     }
   }
 
@@ -175,128 +208,119 @@ const roleToImplicitLiveRegionStatesAndPropertiesMap: Record<
   },
 };
 
-function getLiveRegionAttributes(
-  {
-    container,
-    target,
-  }: {
-    container: Node | null;
-    target: Element;
-  },
-  {
-    atomic,
-    live,
-    liveTarget,
-    relevant,
-  }: {
-    atomic?: boolean;
-    live?: ValueOf<typeof LIVE>;
-    liveTarget?: Element;
-    relevant?: ValueOf<typeof RELEVANT>[];
-  } = {}
-): {
+/**
+ * Resolves the live region properties of a node from its ancestors in the
+ * accessibility tree, so that roles are those exposed to the user, e.g. taking
+ * into account presentational children and nodes owned through `aria-owns`.
+ */
+function getLiveRegionAttributes({
+  accessibilityNodeTreeMap,
+  node,
+}: {
+  accessibilityNodeTreeMap: AccessibilityNodeTreeMap;
+  node: Node;
+}): {
   atomic: boolean;
   live: ValueOf<typeof LIVE>;
   liveTarget?: Element;
   relevant: ValueOf<typeof RELEVANT>[];
 } {
-  // TODO: it would be far better if worked with the accessibility tree rather
-  // than reconstructing here and making assumptions (though probable) about
-  // the allowed roles or inherited presentational roles.
-  const accessibleName = getAccessibleName(target);
-  const { role } = getRole({
-    accessibleName,
-    allowedAccessibilityRoles: [],
-    inheritedImplicitPresentational: false,
-    node: target,
-  });
+  let atomic: boolean | undefined;
+  let live: ValueOf<typeof LIVE> | undefined;
+  let liveTarget: Element | undefined;
+  let relevant: ValueOf<typeof RELEVANT>[] | undefined;
+
+  let entry =
+    accessibilityNodeTreeMap.get(node) ??
+    accessibilityNodeTreeMap.get(getElementFromNode(node));
+
+  while (
+    entry &&
+    (typeof atomic === "undefined" ||
+      typeof live === "undefined" ||
+      typeof relevant === "undefined")
+  ) {
+    const {
+      accessibilityNodeTree: { node: target, role },
+      parentNode,
+    } = entry;
 
-  const implicitAttributes =
-    roleToImplicitLiveRegionStatesAndPropertiesMap[role];
+    entry = parentNode ? accessibilityNodeTreeMap.get(parentNode) : undefined;
 
-  if (typeof atomic === "undefined" && target.hasAttribute("aria-atomic")) {
-    atomic = target.getAttribute("aria-atomic") === "true";
-  }
-
-  if (typeof live === "undefined" && target.hasAttribute("aria-live")) {
-    live = target.getAttribute("aria-live") as ValueOf<typeof LIVE>;
-    liveTarget = target;
-  }
+    if (!isElement(target)) {
+      continue;
+    }
 
-  if (typeof live === "undefined" && implicitAttributes) {
-    live = implicitAttributes.live;
-    liveTarget = target;
+    const implicitAttributes =
+      roleToImplicitLiveRegionStatesAndPropertiesMap[role];
 
-    if (typeof atomic === "undefined") {
-      atomic = implicitAttributes.atomic;
+    if (typeof atomic === "undefined" && target.hasAttribute("aria-atomic")) {
+      atomic = target.getAttribute("aria-atomic") === "true";
     }
-  }
 
-  if (typeof relevant === "undefined" && target.hasAttribute("aria-relevant")) {
-    // The `target.hasAttribute("aria-relevant")` check is sufficient to guard
-    // against the `target.getAttribute("aria-relevant")` being null.
+    if (typeof live === "undefined" && target.hasAttribute("aria-live")) {
+      live = target.getAttribute("aria-live") as ValueOf<typeof LIVE>;
+      liveTarget = target;
+    }
 
-    relevant = target
-      .getAttribute("aria-relevant")!
-      .split(" ")
-      .filter(
-        (token) => !!RELEVANT_VALUES.has(token as ValueOf<typeof RELEVANT>)
-      ) as ValueOf<typeof RELEVANT>[];
+    if (typeof live === "undefined" && implicitAttributes) {
+      live = implicitAttributes.live;
+      liveTarget = target;
 
-    if (relevant.includes(RELEVANT.ALL)) {
-      relevant = [RELEVANT.ALL];
+      if (typeof atomic === "undefined") {
+        atomic = implicitAttributes.atomic;
+      }
     }
-  }
 
-  if (
-    typeof atomic !== "undefined" &&
-    typeof live !== "undefined" &&
-    typeof relevant !== "undefined"
-  ) {
-    return {
-      atomic,
-      live,
-      liveTarget,
-      relevant,
-    };
+    if (
+      typeof relevant === "undefined" &&
+      target.hasAttribute("aria-relevant")
+    ) {
+      // The `target.hasAttribute("aria-relevant")` check is sufficient to
+      // guard against the `target.getAttribute("aria-relevant")` being null.
+
+      relevant = target
+        .getAttribute("aria-relevant")!
+        .split(" ")
+        .filter(
+          (token) => !!RELEVANT_VALUES.has(token as ValueOf<typeof RELEVANT>)
+        ) as ValueOf<typeof RELEVANT>[];
+
+      if (relevant.includes(RELEVANT.ALL)) {
+        relevant = [RELEVANT.ALL];
+      }
+    }
   }
 
-  const targetAncestor = target.parentElement;
-
-  if (target === container || targetAncestor === null) {
-    return {
-      atomic: atomic ?? DEFAULT_ATOMIC,
-      live: live ?? DEFAULT_LIVE,
-      liveTarget,
-      relevant: relevant ?? DEFAULT_RELEVANT,
-    };
-  }
+  return {
+    atomic: atomic ?? DEFAULT_ATOMIC,
+    live: live ?? DEFAULT_LIVE,
+    liveTarget,
+    relevant: relevant ?? DEFAULT_RELEVANT,
+  };
+}
 
-  return getLiveRegionAttributes(
-    { container, target: targetAncestor },
-    {
-      atomic,
-      live,
-      liveTarget,
-      relevant,
-    }
-  );
+export interface LiveAnnouncement {
+  atomic: boolean;
+  live: ValueOf<typeof LIVE>;
+  liveTarget: Element;
+  spokenPhrase: string;
 }
 
-export function getLiveSpokenPhrase({
-  container,
+export function getLiveAnnouncement({
+  accessibilityNodeTreeMap,
   mutation: { addedNodes, removedNodes, target, type },
 }: {
-  container: Node | null;
+  accessibilityNodeTreeMap: AccessibilityNodeTreeMap;
   mutation: MutationRecord;
-}): string {
+}): LiveAnnouncement | null {
   const { atomic, live, liveTarget, relevant } = getLiveRegionAttributes({
-    container,
-    target: getElementFromNode(target),
+    accessibilityNodeTreeMap,
+    node: target,
   });
 
   if (live === LIVE.OFF || !liveTarget) {
-    return "";
+    return null;
   }
 
   /**
@@ -314,12 +338,21 @@ export function getLiveSpokenPhrase({
    * REF: https://github.com/w3c/aria/issues/712
    */
   if (atomic) {
-    return `${live}: ${getSpokenPhraseForNode(liveTarget)}`;
+    return {
+      atomic,
+      live,
+      liveTarget,
+      spokenPhrase: getSpokenPhraseForNode(
+        liveTarget,
+        accessibilityNodeTreeMap
+      ),
+    };
   }
 
   const spokenPhrases = relevant
     .flatMap((relevantType) =>
       relevantToSpokenPhraseMap[relevantType]({
+        accessibilityNodeTreeMap,
         addedNodes,
         removedNodes,
         target,
@@ -330,8 +363,179 @@ export function getLiveSpokenPhrase({
     .join(", ");
 
   if (!spokenPhrases) {
-    return "";
+    return null;
   }
 
-  return `${live}: ${spokenPhrases}`;
+  return { atomic, live, liveTarget, spokenPhrase: spokenPhrases };
+}
+
+export const formatLiveSpokenPhrase = ({
+  live,
+  spokenPhrase,
+}: Pick<LiveAnnouncement, "live" | "spokenPhrase">) =>
+  `${live}: ${spokenPhrase}`;
+
+export const isBusyMutation = ({ attributeName, type }: MutationRecord) =>
+  type === "attributes" && attributeName === "aria-busy";
+
+/**
+ * Whether an element was busy at the time of a mutation, given the mutations
+ * made after it in the same batch.
+ */
+const getIsBusy = (element: Element, laterMutations: MutationRecord[]) => {
+  const laterBusyMutation = laterMutations.find(
+    (mutation) => isBusyMutation(mutation) && mutation.target === element
+  );
+
+  const busy = laterBusyMutation
+    ? laterBusyMutation.oldValue
+    : element.getAttribute("aria-busy");
+
+  return busy === "true";
+};
+
+/**
+ * Indicates an element is being modified and that assistive technologies
+ * could wait until the modifications are complete before exposing them to
+ * the user.
+ *
+ * Assistive technologies MAY ignore changes while aria-busy is true and then
+ * process all changes made during the busy period as a single, atomic update
+ * when aria-busy changes to false.
+ *
+ * REF: https://www.w3.org/TR/wai-aria-1.2/#aria-busy
+ */
+export function getBusyElement({
+  container,
+  laterMutations = [],
+  node,
+}: {
+  container: Node | null;
+  laterMutations?: MutationRecord[];
+  node: Node;
+}): Element | null {
+  let element: Element | null = getElementFromNode(node);
+
+  while (element) {
+    if (getIsBusy(element, laterMutations)) {
+      return element;
+    }
+
+    if (element === container) {
+      return null;
+    }
+
+    element = element.parentElement;
+  }
+
+  return null;
+}
+
+export function getSettledLiveAnnouncement({
+  accessibilityNodeTreeMap,
+  live,
+  liveTarget,
+}: Pick<LiveAnnouncement, "live" | "liveTarget"> & {
+  accessibilityNodeTreeMap: AccessibilityNodeTreeMap;
+}): LiveAnnouncement | null {
+  const spokenPhrase = getSpokenPhraseForNode(
+    liveTarget,
+    accessibilityNodeTreeMap
+  );
+
+  if (!spokenPhrase) {
+    return null;
+  }
+
+  return { atomic: true, live, liveTarget, spokenPhrase };
+}
+
+/**
+ * Frameworks often update a live region through several mutations at once,
+ * which screen readers present as a single update. Atomic regions are
+ * presented once with their final content, otherwise the changes are joined.
+ */
+export function coalesceLiveAnnouncements(
+  liveAnnouncements: LiveAnnouncement[]
+): LiveAnnouncement {
+  // Is only called with the non-empty list of announcements for a live region.
+  const lastLiveAnnouncement = liveAnnouncements.at(-1)!;
+  const lastAtomicLiveAnnouncement = liveAnnouncements.findLast(
+    ({ atomic }) => atomic
+  );
+
+  if (lastAtomicLiveAnnouncement) {
+    return { ...lastAtomicLiveAnnouncement, live: lastLiveAnnouncement.live };
+  }
+
+  return {
+    ...lastLiveAnnouncement,
+    spokenPhrase: liveAnnouncements
+      .map(({ spokenPhrase }) => spokenPhrase)
+      .join(", "),
+  };
+}
+
+/**
+ * Returns the live regions within the nodes added by a mutation which have
+ * something to announce, e.g. a toast added to the page with its message
+ * already inside.
+ */
+export function getAddedLiveTargets({
+  accessibilityNodeTreeMap,
+  mutation: { addedNodes },
+}: {
+  accessibilityNodeTreeMap: AccessibilityNodeTreeMap;
+  mutation: MutationRecord;
+}): Element[] {
+  const getLiveTargets = (
+    accessibilityNodeTree: AccessibilityNodeTree
+  ): Element[] => {
+    const { children, node, role } = accessibilityNodeTree;
+
+    if (!isElement(node)) {
+      return [];
+    }
+
+    const live =
+      (node.getAttribute("aria-live") as ValueOf<typeof LIVE> | null) ??
+      roleToImplicitLiveRegionStatesAndPropertiesMap[role]?.live;
+
+    if (!live || live === LIVE.OFF) {
+      return children.flatMap(getLiveTargets);
+    }
+
+    return getSpokenPhraseForNode(node, accessibilityNodeTreeMap) ? [node] : [];
+  };
+
+  return Array.from(addedNodes).flatMap((addedNode) => {
+    const accessibilityNodeTree =
+      accessibilityNodeTreeMap.get(addedNode)?.accessibilityNodeTree;
+
+    return accessibilityNodeTree ? getLiveTargets(accessibilityNodeTree) : [];
+  });
+}
+
+/**
+ * Screen readers only monitor live regions which are present when the page
+ * changes, so a live region added with its content already inside is not
+ * announced.
+ *
+ * REF: https://developer.mozilla.org/en-US/docs/Web/Accessibility/ARIA/ARIA_Live_Regions
+ */
+export function getIsAddedLiveRegion({
+  liveTarget,
+  mutations,
+  previousAccessibilityNodeTreeMap,
+}: {
+  liveTarget: Element;
+  mutations: MutationRecord[];
+  previousAccessibilityNodeTreeMap: AccessibilityNodeTreeMap;
+}) {
+  return (
+    !previousAccessibilityNodeTreeMap.has(liveTarget) ||
+    mutations.some(({ addedNodes }) =>
+      Array.from(addedNodes).some((addedNode) => addedNode.contains(liveTarget))
+    )
+  );
 }
@@ -3,9 +3,9 @@ import { getRole, presentationRoles } from "./getRole";
 import { getAccessibleDescription } from "./getAccessibleDescription";
 import { getAccessibleName } from "./getAccessibleName";
 import { getAccessibleValue } from "./getAccessibleValue";
-import { getLocalName } from "../getLocalName";
 import { isDialogRole } from "../isDialogRole";
 import { isElement } from "../isElement";
+import { isNativeModalDialog } from "../isNativeModalDialog";
 
 const childrenPresentationalRoles = new Set(
   Object.entries(roles)
@@ -73,16 +73,10 @@ const getIsInert = ({
     return inheritedImplicitInert;
   }
 
-  // TODO: this doesn't cater to `<dialog>` elements which are model if opened
-  // by `show()` vs `showModal()`.
-  // REF: https://html.spec.whatwg.org/multipage/interaction.html#modal-dialogs-and-inert-subtrees
-  const isNativeModalDialog =
-    getLocalName(node) === "dialog" && node.hasAttribute("open");
-
   const isNonNativeModalDialog =
     isDialogRole(role) && node.hasAttribute("aria-modal");
 
-  const isModalDialog = isNonNativeModalDialog || isNativeModalDialog;
+  const isModalDialog = isNonNativeModalDialog || isNativeModalDialog(node);
   const isExplicitInert = node.hasAttribute("inert");
 
   return isExplicitInert || (inheritedImplicitInert && !isModalDialog);
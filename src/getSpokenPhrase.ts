@@ -1,24 +1,75 @@
 import { AccessibilityNode } from "./createAccessibilityTree";
+import { isElement } from "./isElement";
+import type { Profile } from "./profiles/index";
 
-export const getSpokenPhrase = (accessibilityNode: AccessibilityNode) => {
+const BLANK = "blank";
+const CLICKABLE = "clickable";
+
+const textInputRoles = new Set(["searchbox", "textbox"]);
+
+const getIsBlank = ({ node, role }: AccessibilityNode) => {
+  if (!textInputRoles.has(role) || !isElement(node)) {
+    return false;
+  }
+
+  const text =
+    "value" in node ? `${(node as HTMLInputElement).value}` : node.textContent;
+
+  return !text?.trim();
+};
+
+/**
+ * Screen readers which announce "clickable" do so for elements which have a
+ * click handler but are not otherwise interactive, so would be missed by
+ * keyboard users.
+ */
+const getIsClickable = ({ node }: AccessibilityNode) => {
+  const element = isElement(node) ? node : node.parentElement;
+
+  return !!element && element.hasAttribute("onclick") && element.tabIndex < 0;
+};
+
+export const getSpokenPhrase = (
+  accessibilityNode: AccessibilityNode,
+  profile: Profile
+) => {
   const {
     accessibleAttributeLabels,
     accessibleDescription,
     accessibleName,
     accessibleValue,
+    isContainerEnd,
     spokenRole,
   } = accessibilityNode;
 
+  if (isContainerEnd && !profile.formatContainerEndWithDetails) {
+    return profile.formatSpokenPhrase({
+      accessibleAttributeLabels: [],
+      accessibleDescription: "",
+      accessibleName: "",
+      accessibleValue: "",
+      spokenRole,
+    });
+  }
+
   const announcedValue =
     accessibleName === accessibleValue ? "" : accessibleValue;
 
-  return [
-    spokenRole,
-    accessibleName,
-    announcedValue,
+  const markers = [
+    profile.announceBlank && getIsBlank(accessibilityNode) ? BLANK : "",
+    profile.announceClickable && getIsClickable(accessibilityNode)
+      ? CLICKABLE
+      : "",
+  ];
+
+  return profile.formatSpokenPhrase({
+    accessibleAttributeLabels: [
+      ...accessibleAttributeLabels,
+      ...markers,
+    ].filter(Boolean),
     accessibleDescription,
-    ...accessibleAttributeLabels,
-  ]
-    .filter(Boolean)
-    .join(", ");
+    accessibleName,
+    accessibleValue: announcedValue,
+    spokenRole,
+  });
 };
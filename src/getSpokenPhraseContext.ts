@@ -0,0 +1,82 @@
+import type { AccessibilityNode } from "./createAccessibilityTree";
+import type { AccessibleAttributeToLabelMap } from "./getNodeAccessibilityData/getAccessibleAttributeLabels";
+
+export interface SpokenPhraseContext {
+  /**
+   * The accessible attributes of the node mapped to the labels which would
+   * be announced for them, e.g. `{ "aria-level": { label: "level 1", value: "1" } }`.
+   */
+  accessibleAttributeToLabelMap: AccessibleAttributeToLabelMap;
+
+  /**
+   * The accessible description of the node.
+   */
+  accessibleDescription: string;
+
+  /**
+   * The accessible name of the node.
+   */
+  accessibleName: string;
+
+  /**
+   * The accessible value of the node.
+   */
+  accessibleValue: string;
+
+  /**
+   * The item text the Virtual Screen Reader would log by default.
+   */
+  itemText: string;
+
+  /**
+   * The politeness of the live region update being announced, if the
+   * announcement is for a live region.
+   */
+  live?: string;
+
+  /**
+   * The spoken phrase the Virtual Screen Reader would announce by default.
+   */
+  spokenPhrase: string;
+
+  /**
+   * The role of the node as it would be spoken, e.g. "end of list".
+   */
+  spokenRole: string;
+}
+
+/**
+ * A function which returns the phrase, or item text, to announce for an
+ * accessibility node in place of the Virtual Screen Reader default.
+ */
+export type SpokenPhraseFormatter = (
+  accessibilityNode: AccessibilityNode,
+  context: SpokenPhraseContext
+) => string;
+
+export const getSpokenPhraseContext = ({
+  accessibilityNode: {
+    accessibleAttributeToLabelMap,
+    accessibleDescription,
+    accessibleName,
+    accessibleValue,
+    spokenRole,
+  },
+  itemText,
+  live,
+  spokenPhrase,
+}: {
+  accessibilityNode: AccessibilityNode;
+  itemText: string;
+  live?: string;
+  spokenPhrase: string;
+}): SpokenPhraseContext => ({
+  accessibleAttributeToLabelMap,
+  accessibleDescription,
+  accessibleName,
+  accessibleValue,
+  itemText,
+  live,
+  spokenPhrase,
+  spokenRole,
+});
@@ -0,0 +1,59 @@
+import type { AccessibilityNode } from "./createAccessibilityTree";
+import { getAncestors } from "./getAncestors";
+import { isContainerRole } from "./isContainerRole";
+import { isDialogRole } from "./isDialogRole";
+
+export const isGroupRole = (role: string) =>
+  isContainerRole(role) || isDialogRole(role);
+
+export const getGroupEntrySpokenPhrase = (spokenPhrase: string) =>
+  `in ${spokenPhrase}`;
+
+export const getGroupExitSpokenPhrase = (spokenPhrase: string) =>
+  `out of ${spokenPhrase}`;
+
+/**
+ * VoiceOver users interact with a group, such as a list, table, toolbar or
+ * landmark, to move between its children. Any group nested inside it is a
+ * single stop until the user interacts with that group in turn.
+ *
+ * REF: https://support.apple.com/guide/voiceover/interact-with-groups-vo27949/mac
+ */
+export function getGroupItems({
+  group,
+  tree,
+}: {
+  group: Node;
+  tree: AccessibilityNode[];
+}) {
+  return tree.filter((accessibilityNode) => {
+    if (accessibilityNode.isContainerEnd || accessibilityNode.node === group) {
+      return false;
+    }
+
+    const ancestors = getAncestors(accessibilityNode);
+    const groupIndex = ancestors.findIndex(({ node }) => node === group);
+
+    return (
+      groupIndex !== -1 &&
+      ancestors.slice(groupIndex + 1).every(({ role }) => !isGroupRole(role))
+    );
+  });
+}
+
+/**
+ * Returns the index of the last item in a group, including its end, so that
+ * the group can be moved past as a single stop once it has been left.
+ */
+export const getGroupLastIndex = ({
+  group,
+  tree,
+}: {
+  group: Node;
+  tree: AccessibilityNode[];
+}) =>
+  tree.findLastIndex(
+    (accessibilityNode) =>
+      accessibilityNode.node === group ||
+      getAncestors(accessibilityNode).some(({ node }) => node === group)
+  );
@@ -1,4 +1,31 @@
+import type { Announcement, AnnouncementSource } from "./announcement";
+import type {
+  CursorMoveEvent,
+  FocusChangeEvent,
+  ModeChangeEvent,
+  VirtualEventHandler,
+  VirtualEventMap,
+  VirtualEventName,
+} from "./events";
+import type { Diagnostic, DiagnosticCode } from "./diagnostic";
+import type { ElementsListItem, ElementsListKind } from "./elementsList";
+import type {
+  SpokenPhraseContext,
+  SpokenPhraseFormatter,
+} from "./getSpokenPhraseContext";
 import { type StartOptions, Virtual } from "./Virtual";
+import type {
+  VirtualCommand,
+  VirtualCommandArgs,
+  VirtualCommandResult,
+  VirtualCustomCommands,
+} from "./commands/types";
+import type { AccessibilityNode } from "./createAccessibilityTree";
+import type { BoundaryBehavior } from "./boundary";
+import type { KeyBindings } from "./keyBindings/index";
+import type { PendingSpeechPolicy } from "./pendingSpeechPolicy";
+import type { ProfileName } from "./profiles/index";
+import { VirtualNavigationError } from "./errors";
 
 /**
  * [API Reference](https://www.guidepup.dev/docs/api/class-virtual)
@@ -72,4 +99,31 @@ import { type StartOptions, Virtual } from "./Virtual";
  */
 export const virtual = new Virtual();
 
-export { type StartOptions, Virtual };
+export {
+  type AccessibilityNode,
+  type Announcement,
+  type AnnouncementSource,
+  type BoundaryBehavior,
+  type CursorMoveEvent,
+  type Diagnostic,
+  type DiagnosticCode,
+  type ElementsListItem,
+  type ElementsListKind,
+  type FocusChangeEvent,
+  type KeyBindings,
+  type ModeChangeEvent,
+  type PendingSpeechPolicy,
+  type ProfileName,
+  type SpokenPhraseContext,
+  type SpokenPhraseFormatter,
+  type StartOptions,
+  Virtual,
+  type VirtualCommand,
+  type VirtualCommandArgs,
+  type VirtualCommandResult,
+  type VirtualCustomCommands,
+  type VirtualEventHandler,
+  type VirtualEventMap,
+  type VirtualEventName,
+  VirtualNavigationError,
+};
@@ -0,0 +1,91 @@
+import type { Root } from "./Virtual";
+
+type ValueOf<T> = T[keyof T];
+
+export const ARIA_NOTIFY_PRIORITY = {
+  HIGH: "high",
+  NORMAL: "normal",
+} as const;
+
+export type AriaNotifyPriority = ValueOf<typeof ARIA_NOTIFY_PRIORITY>;
+
+export interface AriaNotifyOptions {
+  priority?: AriaNotifyPriority;
+}
+
+type AriaNotify = (
+  this: Node,
+  announcement: string,
+  options?: AriaNotifyOptions | null
+) => void;
+
+interface AriaNotifyTarget {
+  ariaNotify?: AriaNotify;
+}
+
+export const formatAriaNotifySpokenPhrase = ({
+  announcement,
+  priority,
+}: {
+  announcement: string;
+  priority: AriaNotifyPriority;
+}) => `${priority}: ${announcement}`;
+
+/**
+ * The `ariaNotify()` method of elements and documents asks assistive
+ * technologies to announce a message, with a priority of either `"normal"`,
+ * which is announced after any current speech, or `"high"`, which interrupts
+ * it.
+ *
+ * Installs `ariaNotify()`, calling through to any native implementation, and
+ * returns a function which restores the original.
+ *
+ * REF: https://github.com/WICG/accessible-notifications
+ */
+export function interceptAriaNotify(
+  root: Root | undefined,
+  onNotify: (
+    node: Node,
+    announcement: string,
+    priority: AriaNotifyPriority
+  ) => void
+): () => void {
+  const prototypes = [root?.Element?.prototype, root?.Document?.prototype]
+    .filter((prototype) => !!prototype)
+    .map((prototype) => prototype as AriaNotifyTarget);
+
+  const restores = prototypes.map((prototype) => {
+    const hasOwnAriaNotify = Object.prototype.hasOwnProperty.call(
+      prototype,
+      "ariaNotify"
+    );
+    const originalAriaNotify = prototype.ariaNotify;
+
+    prototype.ariaNotify = function (announcement, options) {
+      // Like other dictionary arguments, `null` is treated as no options.
+      const { priority } = options ?? {};
+
+      onNotify(
+        this,
+        `${announcement}`,
+        priority === ARIA_NOTIFY_PRIORITY.HIGH
+          ? ARIA_NOTIFY_PRIORITY.HIGH
+          : ARIA_NOTIFY_PRIORITY.NORMAL
+      );
+
+      originalAriaNotify?.call(this, announcement, options);
+    };
+
+    return () => {
+      if (hasOwnAriaNotify) {
+        prototype.ariaNotify = originalAriaNotify;
+      } else {
+        delete prototype.ariaNotify;
+      }
+    };
+  });
+
+  return () => {
+    restores.forEach((restore) => restore());
+  };
+}
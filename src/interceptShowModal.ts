@@ -0,0 +1,79 @@
+import { isNativeModalDialog, setIsNativeModalDialog } from "./isNativeModalDialog";
+import { ERR_DIALOG_ALREADY_OPEN } from "./errors";
+import type { Root } from "./Virtual";
+
+type DialogMethod = (this: HTMLDialogElement, ...args: unknown[]) => void;
+
+type DialogMethodName = "close" | "show" | "showModal";
+
+type DialogMethods = Partial<Record<DialogMethodName, DialogMethod>>;
+
+const isModalByDialogMethodName: Record<DialogMethodName, boolean> = {
+  close: false,
+  show: false,
+  showModal: true,
+};
+
+/**
+ * Whether a `<dialog>` element is modal depends on whether it was opened with
+ * `show()` or `showModal()`, which isn't reflected in the DOM.
+ *
+ * Installs `show()`, `showModal()` and `close()` to track this, calling
+ * through to any native implementation, or otherwise toggling the `open`
+ * attribute, and returns a function which restores the originals.
+ *
+ * Like the native implementation, opening a dialog which is already open
+ * does nothing, unless it would change whether the dialog is modal, which
+ * throws an `"InvalidStateError"` `DOMException`.
+ *
+ * REF: https://html.spec.whatwg.org/multipage/interactive-elements.html#the-dialog-element
+ */
+export function interceptShowModal(root: Root | undefined): () => void {
+  const prototype = root?.HTMLDialogElement?.prototype as
+    DialogMethods | undefined;
+
+  if (!prototype) {
+    return () => {};
+  }
+
+  const dialogMethodNames = Object.keys(
+    isModalByDialogMethodName
+  ) as DialogMethodName[];
+
+  const restores = dialogMethodNames.map((dialogMethodName) => {
+    const hasOwnDialogMethod = Object.prototype.hasOwnProperty.call(
+      prototype,
+      dialogMethodName
+    );
+    const originalDialogMethod = prototype[dialogMethodName];
+    const isModal = isModalByDialogMethodName[dialogMethodName];
+
+    prototype[dialogMethodName] = function (...args) {
+      if (originalDialogMethod) {
+        originalDialogMethod.apply(this, args);
+      } else if (dialogMethodName === "close") {
+        this.removeAttribute("open");
+      } else if (!this.hasAttribute("open")) {
+        this.setAttribute("open", "");
+      } else if (isNativeModalDialog(this) === isModal) {
+        return;
+      } else {
+        throw new DOMException(ERR_DIALOG_ALREADY_OPEN, "InvalidStateError");
+      }
+
+      setIsNativeModalDialog(this, isModal);
+    };
+
+    return () => {
+      if (hasOwnDialogMethod) {
+        prototype[dialogMethodName] = originalDialogMethod;
+      } else {
+        delete prototype[dialogMethodName];
+      }
+    };
+  });
+
+  return () => {
+    restores.forEach((restore) => restore());
+  };
+}
@@ -0,0 +1,21 @@
+const containerRoles = new Set([
+  "banner",
+  "complementary",
+  "contentinfo",
+  "form",
+  "grid",
+  "group",
+  "list",
+  "main",
+  "menu",
+  "menubar",
+  "navigation",
+  "radiogroup",
+  "region",
+  "search",
+  "table",
+  "toolbar",
+  "treegrid",
+]);
+
+export const isContainerRole = (role: string) => containerRoles.has(role);
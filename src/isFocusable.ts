@@ -0,0 +1,9 @@
+/**
+ * Whether an element can receive focus, either from being natively focusable
+ * or from having a `tabindex`.
+ *
+ * REF: https://html.spec.whatwg.org/multipage/interaction.html#focusable-area
+ */
+export const isFocusable = (element: HTMLElement) =>
+  !element.hasAttribute("disabled") &&
+  (element.tabIndex >= 0 || element.hasAttribute("tabindex"));
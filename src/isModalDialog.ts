@@ -0,0 +1,12 @@
+import { isNativeModalDialog } from "./isNativeModalDialog";
+
+/**
+ * A dialog is modal when it has `aria-modal="true"`, or when it is a native
+ * `<dialog>` element which was opened with `showModal()`.
+ *
+ * REF:
+ * - https://www.w3.org/TR/wai-aria-1.2/#aria-modal
+ * - https://html.spec.whatwg.org/multipage/interaction.html#modal-dialogs-and-inert-subtrees
+ */
+export const isModalDialog = (dialog: Element) =>
+  dialog.getAttribute("aria-modal") === "true" || isNativeModalDialog(dialog);
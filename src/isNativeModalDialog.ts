@@ -0,0 +1,39 @@
+import { getLocalName } from "./getLocalName";
+
+/**
+ * The `open` attribute of each dialog opened with `showModal()`. Removing the
+ * attribute and setting it again creates a new attribute, and a dialog opened
+ * by setting the attribute isn't modal.
+ */
+const nativeModalDialogs = new WeakMap<Element, Attr | null>();
+
+export const setIsNativeModalDialog = (dialog: Element, isModal: boolean) => {
+  if (isModal) {
+    nativeModalDialogs.set(dialog, dialog.getAttributeNode("open"));
+  } else {
+    nativeModalDialogs.delete(dialog);
+  }
+};
+
+const getMatchesModal = (dialog: Element) => {
+  try {
+    return dialog.matches(":modal");
+  } catch {
+    // DOM implementations such as JSDOM don't support the `:modal`
+    // pseudo-class, in which case we rely on `interceptShowModal()` having
+    // tracked how the dialog was opened.
+    return nativeModalDialogs.get(dialog) === dialog.getAttributeNode("open");
+  }
+};
+
+/**
+ * A `<dialog>` element is only modal when it was opened with `showModal()`.
+ * One which is opened with `show()`, or by setting the `open` attribute, is
+ * not modal.
+ *
+ * REF: https://html.spec.whatwg.org/multipage/interactive-elements.html#the-dialog-element
+ */
+export const isNativeModalDialog = (node: Element) =>
+  getLocalName(node) === "dialog" &&
+  node.hasAttribute("open") &&
+  getMatchesModal(node);
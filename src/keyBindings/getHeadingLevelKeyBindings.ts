@@ -0,0 +1,18 @@
+import type { KeyBindings } from "./types";
+
+const headingLevels = ["1", "2", "3", "4", "5", "6"] as const;
+
+/**
+ * Both NVDA and JAWS bind the number keys `1` to `6` to moving to the next
+ * heading at that level, and `Shift` plus the number key to moving to the
+ * previous heading at that level.
+ */
+export const getHeadingLevelKeyBindings = (): KeyBindings =>
+  headingLevels.reduce(
+    (keyBindings, headingLevel) => ({
+      ...keyBindings,
+      [headingLevel]: `moveToNextHeadingLevel${headingLevel}`,
+      [`Shift+${headingLevel}`]: `moveToPreviousHeadingLevel${headingLevel}`,
+    }),
+    {} as KeyBindings
+  );
@@ -0,0 +1,29 @@
+import { jawsKeyBindings } from "./jaws";
+import type { KeyBindings } from "./types";
+import { normalizeKey } from "./normalizeKey";
+import { nvdaKeyBindings } from "./nvda";
+
+export const keyBindingPresets = {
+  jaws: jawsKeyBindings,
+  nvda: nvdaKeyBindings,
+} as const;
+
+export type KeyBindingPreset = keyof typeof keyBindingPresets;
+
+/**
+ * Returns the key bindings for a preset or map of key bindings, with each key
+ * normalised so that it matches however the key is written when pressed.
+ */
+export const getKeyBindings = (
+  keyBindings: KeyBindingPreset | KeyBindings | null
+): KeyBindings =>
+  Object.fromEntries(
+    Object.entries(
+      typeof keyBindings === "string"
+        ? keyBindingPresets[keyBindings]
+        : keyBindings ?? {}
+    ).map(([key, action]) => [normalizeKey(key), action])
+  );
+
+export { normalizeKey };
+export type { KeyBindingAction, KeyBindings } from "./types";
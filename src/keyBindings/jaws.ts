@@ -0,0 +1,26 @@
+import { getHeadingLevelKeyBindings } from "./getHeadingLevelKeyBindings";
+import type { KeyBindings } from "./types";
+
+/**
+ * JAWS virtual cursor navigation quick keys for which there is a matching
+ * Virtual Screen Reader command.
+ *
+ * REF: https://www.freedomscientific.com/training/jaws/hotkeys/
+ */
+export const jawsKeyBindings: KeyBindings = {
+  ArrowDown: "next",
+  ArrowUp: "previous",
+  h: "moveToNextHeading",
+  "Shift+h": "moveToPreviousHeading",
+  ...getHeadingLevelKeyBindings(),
+  r: "moveToNextLandmark",
+  "Shift+r": "moveToPreviousLandmark",
+  q: "moveToNextMain",
+  "Shift+q": "moveToPreviousMain",
+  t: "moveToNextTable",
+  "Shift+t": "moveToPreviousTable",
+  "Control+Alt+ArrowDown": "moveToNextTableRow",
+  "Control+Alt+ArrowUp": "moveToPreviousTableRow",
+  "Control+Alt+ArrowRight": "moveToNextTableColumn",
+  "Control+Alt+ArrowLeft": "moveToPreviousTableColumn",
+};
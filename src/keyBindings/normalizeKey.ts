@@ -0,0 +1,49 @@
+/**
+ * The modifiers accepted by `virtual.press()`, mapped from their aliases to
+ * the name used when comparing keys.
+ */
+const modifierNames: Record<string, string> = {
+  Alt: "Alt",
+  AltLeft: "Alt",
+  AltRight: "Alt",
+  Command: "Meta",
+  CommandLeft: "Meta",
+  CommandRight: "Meta",
+  Control: "Control",
+  ControlLeft: "Control",
+  ControlRight: "Control",
+  Meta: "Meta",
+  Option: "Alt",
+  OptionLeft: "Alt",
+  OptionRight: "Alt",
+  Shift: "Shift",
+  ShiftLeft: "Shift",
+  ShiftRight: "Shift",
+};
+
+const modifierOrder = ["Control", "Alt", "Shift", "Meta"];
+
+/**
+ * Normalises a key, in the same format as accepted by `virtual.press()`, so
+ * that keys which are pressed the same way can be compared, e.g. `H`,
+ * `Shift+H` and `Shift+h` are all normalised to `Shift+h`, and
+ * `Alt+Control+ArrowDown` to `Control+Alt+ArrowDown`.
+ */
+export function normalizeKey(key: string) {
+  // A trailing `+` is the key itself rather than a separator, e.g. `Shift++`.
+  const parts = key.split(/\+(?=.)/);
+  let mainKey = parts.pop()!;
+  const modifiers = new Set(parts.map((part) => modifierNames[part]));
+  const otherKeys = parts.filter((part) => !modifierNames[part]);
+
+  if (mainKey.length === 1 && mainKey !== mainKey.toLowerCase()) {
+    mainKey = mainKey.toLowerCase();
+    modifiers.add("Shift");
+  }
+
+  return [
+    ...modifierOrder.filter((modifier) => modifiers.has(modifier)),
+    ...otherKeys,
+    mainKey,
+  ].join("+");
+}
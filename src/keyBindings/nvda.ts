@@ -0,0 +1,30 @@
+import { getHeadingLevelKeyBindings } from "./getHeadingLevelKeyBindings";
+import type { KeyBindings } from "./types";
+
+/**
+ * NVDA browse mode single letter navigation keys for which there is a
+ * matching Virtual Screen Reader command.
+ *
+ * REF: https://download.nvaccess.org/documentation/keyCommands.html#BrowseMode
+ */
+export const nvdaKeyBindings: KeyBindings = {
+  ArrowDown: "next",
+  ArrowUp: "previous",
+  h: "moveToNextHeading",
+  "Shift+h": "moveToPreviousHeading",
+  ...getHeadingLevelKeyBindings(),
+  k: "moveToNextLink",
+  "Shift+k": "moveToPreviousLink",
+  d: "moveToNextLandmark",
+  "Shift+d": "moveToPreviousLandmark",
+  t: "moveToNextTable",
+  "Shift+t": "moveToPreviousTable",
+  "Control+Alt+ArrowDown": "moveToNextTableRow",
+  "Control+Alt+ArrowUp": "moveToPreviousTableRow",
+  "Control+Alt+ArrowRight": "moveToNextTableColumn",
+  "Control+Alt+ArrowLeft": "moveToPreviousTableColumn",
+  "Control+Alt+Home": "moveToFirstTableCellInRow",
+  "Control+Alt+End": "moveToLastTableCellInRow",
+  "Control+Alt+PageUp": "moveToFirstTableCellInColumn",
+  "Control+Alt+PageDown": "moveToLastTableCellInColumn",
+};
@@ -0,0 +1,15 @@
+import type { VirtualCommands } from "../commands/index";
+
+/**
+ * An action a key can be bound to in browse mode: either moving the Virtual
+ * Screen Reader cursor to the next or previous item, or performing one of the
+ * Virtual Screen Reader commands.
+ */
+export type KeyBindingAction = "next" | "previous" | keyof VirtualCommands;
+
+/**
+ * A map of keys, in the same format as accepted by `virtual.press()`, e.g.
+ * `h` or `Shift+h`, to the action to perform when the key is pressed in
+ * browse mode.
+ */
+export type KeyBindings = Record<string, KeyBindingAction>;
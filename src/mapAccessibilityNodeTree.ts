@@ -0,0 +1,39 @@
+import type { AccessibilityNodeTree } from "./createAccessibilityTree";
+
+export interface AccessibilityNodeTreeMapEntry {
+  accessibilityNodeTree: AccessibilityNodeTree;
+  parentNode: Node | null;
+}
+
+export type AccessibilityNodeTreeMap = Map<Node, AccessibilityNodeTreeMapEntry>;
+
+/**
+ * Maps each node in the accessibility tree to its accessibility tree node and
+ * the node of its parent in the accessibility tree, which is not necessarily
+ * its DOM parent, e.g. for nodes owned through `aria-owns` or the children of
+ * presentational elements.
+ */
+export function mapAccessibilityNodeTree(
+  accessibilityNodeTree: AccessibilityNodeTree | null,
+  parentNode: Node | null = null,
+  accessibilityNodeTreeMap: AccessibilityNodeTreeMap = new Map()
+) {
+  if (!accessibilityNodeTree) {
+    return accessibilityNodeTreeMap;
+  }
+
+  accessibilityNodeTreeMap.set(accessibilityNodeTree.node, {
+    accessibilityNodeTree,
+    parentNode,
+  });
+
+  accessibilityNodeTree.children.forEach((child) =>
+    mapAccessibilityNodeTree(
+      child,
+      accessibilityNodeTree.node,
+      accessibilityNodeTreeMap
+    )
+  );
+
+  return accessibilityNodeTreeMap;
+}
@@ -0,0 +1,44 @@
+import type { AccessibilityNode } from "./createAccessibilityTree";
+import { getAncestors } from "./getAncestors";
+
+type ValueOf<T> = T[keyof T];
+
+export const MODE = {
+  BROWSE: "browse",
+  FOCUS: "focus",
+} as const;
+
+export type Mode = ValueOf<typeof MODE>;
+
+export const getModeSpokenPhrase = (mode: Mode) => `${mode} mode`;
+
+/**
+ * Roles of widgets which require the keyboard to operate, either because
+ * they accept text input or because they manage their own arrow key
+ * navigation. Screen readers automatically switch to focus mode when focus
+ * lands on, or within, one of these widgets.
+ *
+ * REF:
+ * - https://www.w3.org/TR/wai-aria-1.2/#application
+ * - https://www.nvaccess.org/files/nvda/documentation/userGuide.html#BrowseMode
+ */
+const focusModeRoles = new Set([
+  "application",
+  "combobox",
+  "grid",
+  "listbox",
+  "menu",
+  "menubar",
+  "searchbox",
+  "slider",
+  "spinbutton",
+  "tablist",
+  "textbox",
+  "tree",
+  "treegrid",
+]);
+
+export const isFocusModeNode = (accessibilityNode: AccessibilityNode) =>
+  [accessibilityNode, ...getAncestors(accessibilityNode)].some(({ role }) =>
+    focusModeRoles.has(role)
+  );
@@ -17,6 +17,7 @@ export function observeDOM(
     const mutationObserver = new MutationObserver(onChange);
 
     mutationObserver.observe(node, {
+      attributeOldValue: true,
       attributes: true,
       characterData: true,
       childList: true,
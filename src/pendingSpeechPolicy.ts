@@ -0,0 +1,17 @@
+type ValueOf<T> = T[keyof T];
+
+/**
+ * What happens to polite live region updates which are still waiting to be
+ * announced when the user performs an action.
+ *
+ * Screen readers interrupt speech when the user presses a key, and most
+ * discard any queued polite updates along with it.
+ *
+ * REF: https://www.w3.org/TR/wai-aria-1.2/#aria-live
+ */
+export const PENDING_SPEECH_POLICY = {
+  CANCEL: "cancel",
+  FLUSH: "flush",
+} as const;
+
+export type PendingSpeechPolicy = ValueOf<typeof PENDING_SPEECH_POLICY>;
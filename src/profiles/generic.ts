@@ -0,0 +1,39 @@
+import { END_OF_NO_ROLE_PREFIX, END_OF_ROLE_PREFIX } from "../flattenTree";
+import { joinSpokenPhraseParts } from "./joinSpokenPhraseParts";
+import type { Profile } from "./types";
+
+/**
+ * A screen reader agnostic profile which announces the role first, followed
+ * by the name, value, description and states of an item.
+ */
+export const genericProfile: Profile = {
+  announceBlank: false,
+  announceBoundaries: false,
+  announceClickable: false,
+  formatContainerEnd: (spokenRole) =>
+    spokenRole ? `${END_OF_ROLE_PREFIX} ${spokenRole}` : END_OF_NO_ROLE_PREFIX,
+  formatContainerEndWithDetails: true,
+  formatSpokenPhrase: ({
+    accessibleAttributeLabels,
+    accessibleDescription,
+    accessibleName,
+    accessibleValue,
+    spokenRole,
+  }) =>
+    joinSpokenPhraseParts(
+      [
+        spokenRole,
+        accessibleName,
+        accessibleValue,
+        accessibleDescription,
+        ...accessibleAttributeLabels,
+      ],
+      ", "
+    ),
+  interactWithGroups: false,
+  keyBindings: null,
+  roleLabels: {},
+  strictLiveRegions: false,
+  switchModes: false,
+  unannouncedRoles: [],
+};
@@ -0,0 +1,17 @@
+import { genericProfile } from "./generic";
+import { jawsProfile } from "./jaws";
+import { nvdaProfile } from "./nvda";
+import { talkBackProfile } from "./talkBack";
+import { voiceOverMacOSProfile } from "./voiceOverMacOS";
+
+export const profiles = {
+  generic: genericProfile,
+  jaws: jawsProfile,
+  nvda: nvdaProfile,
+  talkback: talkBackProfile,
+  "voiceover-macos": voiceOverMacOSProfile,
+} as const;
+
+export type ProfileName = keyof typeof profiles;
+
+export type { Profile, SpokenPhraseParts } from "./types";
@@ -0,0 +1,50 @@
+import { joinSpokenPhraseParts } from "./joinSpokenPhraseParts";
+import type { Profile } from "./types";
+
+/**
+ * JAWS announces the name of an item before its role and states, e.g.
+ * "Title heading level 1", and the role followed by "end" when leaving a
+ * container.
+ *
+ * REF: https://www.freedomscientific.com/training/jaws/
+ */
+export const jawsProfile: Profile = {
+  announceBlank: true,
+  announceBoundaries: true,
+  announceClickable: true,
+  formatContainerEnd: (spokenRole) => `${spokenRole} end`.trim(),
+  formatContainerEndWithDetails: false,
+  formatSpokenPhrase: ({
+    accessibleAttributeLabels,
+    accessibleDescription,
+    accessibleName,
+    accessibleValue,
+    spokenRole,
+  }) =>
+    joinSpokenPhraseParts(
+      [
+        accessibleName,
+        spokenRole,
+        ...accessibleAttributeLabels,
+        accessibleValue,
+        accessibleDescription,
+      ],
+      " "
+    ),
+  interactWithGroups: false,
+  keyBindings: "jaws",
+  roleLabels: {
+    checkbox: "check box",
+    columnheader: "column header",
+    combobox: "combo box",
+    listbox: "list box",
+    menuitem: "menu item",
+    radio: "radio button",
+    rowheader: "row header",
+    searchbox: "edit",
+    textbox: "edit",
+  },
+  strictLiveRegions: true,
+  switchModes: true,
+  unannouncedRoles: [],
+};
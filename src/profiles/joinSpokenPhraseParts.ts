@@ -0,0 +1,2 @@
+export const joinSpokenPhraseParts = (parts: string[], separator: string) =>
+  parts.filter(Boolean).join(separator);
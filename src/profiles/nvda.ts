@@ -0,0 +1,50 @@
+import { joinSpokenPhraseParts } from "./joinSpokenPhraseParts";
+import type { Profile } from "./types";
+
+/**
+ * NVDA announces the role and states of an item in browse mode before its
+ * name, e.g. "heading level 1 Title", and "out of" when leaving a container.
+ * List items aren't announced, only their content.
+ *
+ * REF: https://download.nvaccess.org/documentation/userGuide.html#BrowseMode
+ */
+export const nvdaProfile: Profile = {
+  announceBlank: true,
+  announceBoundaries: true,
+  announceClickable: true,
+  formatContainerEnd: (spokenRole) => `out of ${spokenRole}`.trim(),
+  formatContainerEndWithDetails: false,
+  formatSpokenPhrase: ({
+    accessibleAttributeLabels,
+    accessibleDescription,
+    accessibleName,
+    accessibleValue,
+    spokenRole,
+  }) =>
+    joinSpokenPhraseParts(
+      [
+        spokenRole,
+        ...accessibleAttributeLabels,
+        accessibleName,
+        accessibleValue,
+        accessibleDescription,
+      ],
+      " "
+    ),
+  interactWithGroups: false,
+  keyBindings: "nvda",
+  roleLabels: {
+    checkbox: "check box",
+    columnheader: "column header",
+    combobox: "combo box",
+    listbox: "list box",
+    menuitem: "menu item",
+    radio: "radio button",
+    rowheader: "row header",
+    searchbox: "edit",
+    textbox: "edit",
+  },
+  strictLiveRegions: true,
+  switchModes: true,
+  unannouncedRoles: ["listitem"],
+};
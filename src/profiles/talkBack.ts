@@ -0,0 +1,42 @@
+import { joinSpokenPhraseParts } from "./joinSpokenPhraseParts";
+import type { Profile } from "./types";
+
+/**
+ * TalkBack announces the name and value of an item before its role, e.g.
+ * "Home, link", and does not announce leaving containers.
+ *
+ * REF: https://support.google.com/accessibility/android/answer/6283677
+ */
+export const talkBackProfile: Profile = {
+  announceBlank: false,
+  announceBoundaries: true,
+  announceClickable: false,
+  formatContainerEnd: null,
+  formatContainerEndWithDetails: false,
+  formatSpokenPhrase: ({
+    accessibleAttributeLabels,
+    accessibleDescription,
+    accessibleName,
+    accessibleValue,
+    spokenRole,
+  }) =>
+    joinSpokenPhraseParts(
+      [
+        accessibleName,
+        accessibleValue,
+        spokenRole,
+        ...accessibleAttributeLabels,
+        accessibleDescription,
+      ],
+      ", "
+    ),
+  interactWithGroups: false,
+  keyBindings: null,
+  roleLabels: {
+    searchbox: "edit box",
+    textbox: "edit box",
+  },
+  strictLiveRegions: true,
+  switchModes: false,
+  unannouncedRoles: [],
+};
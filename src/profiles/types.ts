@@ -0,0 +1,85 @@
+import type { KeyBindingPreset } from "../keyBindings/index";
+
+export interface SpokenPhraseParts {
+  accessibleAttributeLabels: string[];
+  accessibleDescription: string;
+  accessibleName: string;
+  accessibleValue: string;
+  spokenRole: string;
+}
+
+export interface Profile {
+  /**
+   * Whether to announce "blank" for text inputs which have no value.
+   */
+  announceBlank: boolean;
+
+  /**
+   * Whether to announce reaching the first or last item, wrapping around,
+   * and quick navigation finding no further item, e.g. "no next heading".
+   */
+  announceBoundaries: boolean;
+
+  /**
+   * Whether to announce "clickable" for elements which are not focusable but
+   * have a click handler attribute.
+   */
+  announceClickable: boolean;
+
+  /**
+   * Formats the spoken role of the item announced when the Virtual Screen
+   * Reader cursor leaves a container, e.g. "end of list", or `null` if the
+   * screen reader does not announce leaving containers.
+   */
+  formatContainerEnd: ((spokenRole: string) => string) | null;
+
+  /**
+   * Whether the item announced when leaving a container repeats the name,
+   * value, description and states of the container, or only its role.
+   */
+  formatContainerEndWithDetails: boolean;
+
+  /**
+   * Formats the spoken phrase for an item, determining the order of, and
+   * separators between, its role, name, value, description and states.
+   */
+  formatSpokenPhrase: (parts: SpokenPhraseParts) => string;
+
+  /**
+   * Whether interacting with a group, such as a list or landmark, moves into
+   * it so that navigation is between its children, as VoiceOver does, rather
+   * than switching to focus mode.
+   */
+  interactWithGroups: boolean;
+
+  /**
+   * The key bindings used by the screen reader in browse mode, or `null` if
+   * no keys are bound unless the `keyBindings` option is provided.
+   */
+  keyBindings: KeyBindingPreset | null;
+
+  /**
+   * The words used by the screen reader for roles which differ from the
+   * WAI-ARIA role name.
+   */
+  roleLabels: Record<string, string>;
+
+  /**
+   * Whether the screen reader only announces changes to live regions which
+   * were already present on the page, ignoring changes made to a live region
+   * as it is added to the page.
+   */
+  strictLiveRegions: boolean;
+
+  /**
+   * Whether the screen reader has browse and focus modes, switching between
+   * them automatically as focus moves and announcing each switch.
+   */
+  switchModes: boolean;
+
+  /**
+   * Roles of items which the screen reader doesn't announce, reading their
+   * content without announcing entering or leaving them.
+   */
+  unannouncedRoles: string[];
+}
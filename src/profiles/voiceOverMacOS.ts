@@ -0,0 +1,41 @@
+import { joinSpokenPhraseParts } from "./joinSpokenPhraseParts";
+import type { Profile } from "./types";
+
+/**
+ * VoiceOver on macOS announces the name and value of an item before its
+ * role and states, e.g. "Title, heading level 1".
+ *
+ * REF: https://support.apple.com/guide/voiceover/welcome/mac
+ */
+export const voiceOverMacOSProfile: Profile = {
+  announceBlank: false,
+  announceBoundaries: true,
+  announceClickable: true,
+  formatContainerEnd: (spokenRole) => `end of ${spokenRole}`.trim(),
+  formatContainerEndWithDetails: false,
+  formatSpokenPhrase: ({
+    accessibleAttributeLabels,
+    accessibleDescription,
+    accessibleName,
+    accessibleValue,
+    spokenRole,
+  }) =>
+    joinSpokenPhraseParts(
+      [
+        accessibleName,
+        accessibleValue,
+        joinSpokenPhraseParts([spokenRole, ...accessibleAttributeLabels], " "),
+        accessibleDescription,
+      ],
+      ", "
+    ),
+  interactWithGroups: true,
+  keyBindings: null,
+  roleLabels: {
+    searchbox: "search text field",
+    textbox: "edit text",
+  },
+  strictLiveRegions: true,
+  switchModes: false,
+  unannouncedRoles: [],
+};
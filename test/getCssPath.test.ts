@@ -0,0 +1,37 @@
+import { getCssPath } from "../src/getCssPath.js";
+
+describe("getCssPath", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <main>
+        <p>First</p>
+        <p>Second <a href="#">Link</a></p>
+      </main>
+      <section id="details"><h2>Details</h2></section>
+    `;
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = "";
+  });
+
+  test("should return the path from the root element", () => {
+    expect(getCssPath(document.querySelector("a"))).toBe(
+      "html > body > main > p:nth-of-type(2) > a"
+    );
+  });
+
+  test("should start the path from the nearest ancestor with an id", () => {
+    expect(getCssPath(document.querySelector("h2"))).toBe("#details > h2");
+  });
+
+  test("should return the path of the parent element for text nodes", () => {
+    expect(getCssPath(document.querySelector("p")!.firstChild)).toBe(
+      "html > body > main > p:nth-of-type(1)"
+    );
+  });
+
+  test("should return an empty path when there is no node", () => {
+    expect(getCssPath(null)).toBe("");
+  });
+});
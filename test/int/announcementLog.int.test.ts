@@ -0,0 +1,208 @@
+import { virtual } from "../../src/index.js";
+import { waitFor } from "@testing-library/dom";
+
+describe("announcementLog / lastAnnouncement", () => {
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  describe("when navigating", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <nav aria-label="Primary">
+          <a id="home" href="#home">Home</a>
+        </nav>
+        <h2 aria-describedby="hint">Settings</h2>
+        <p id="hint">Your preferences</p>
+      `;
+
+      await virtual.start({ container: document.body });
+    });
+
+    it("should log the details of the node announced", async () => {
+      await virtual.perform(virtual.commands.moveToNextHeading);
+
+      expect(await virtual.lastAnnouncement()).toEqual({
+        accessibleAttributeToLabelMap: {
+          "aria-level": { label: "level 2", value: "2" },
+        },
+        accessibleDescription: "Your preferences",
+        accessibleName: "Settings",
+        accessibleValue: "",
+        cssPath: "html > body > h2",
+        itemText: "Settings",
+        node: document.querySelector("h2"),
+        role: "heading",
+        sequence: 2,
+        source: "navigation",
+        spokenPhrase: "heading, Settings, Your preferences, level 2",
+      });
+    });
+
+    it("should log where each announcement came from in sequence", async () => {
+      await virtual.perform(virtual.commands.moveToNextLink);
+      await virtual.next();
+
+      const announcementLog = await virtual.announcementLog();
+
+      expect(
+        announcementLog.map(({ cssPath, sequence, source, spokenPhrase }) => ({
+          cssPath,
+          sequence,
+          source,
+          spokenPhrase,
+        }))
+      ).toEqual([
+        {
+          cssPath: "html > body",
+          sequence: 1,
+          source: "navigation",
+          spokenPhrase: "document",
+        },
+        {
+          cssPath: "html > body > nav",
+          sequence: 2,
+          source: "container-entry",
+          spokenPhrase: "navigation, Primary",
+        },
+        {
+          cssPath: "#home",
+          sequence: 3,
+          source: "navigation",
+          spokenPhrase: "link, Home",
+        },
+        {
+          cssPath: "html > body > nav",
+          sequence: 4,
+          source: "container-exit",
+          spokenPhrase: "end of navigation, Primary",
+        },
+      ]);
+    });
+
+    it("should keep increasing the sequence after the log is cleared", async () => {
+      await virtual.next();
+      await virtual.clearSpokenPhraseLog();
+
+      expect(await virtual.announcementLog()).toEqual([]);
+      expect(await virtual.lastAnnouncement()).toBeNull();
+
+      await virtual.next();
+
+      expect((await virtual.lastAnnouncement())?.sequence).toBe(3);
+    });
+  });
+
+  describe("when focus moves", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <div role="dialog" aria-label="Settings">
+          <input type="text" aria-label="Name" />
+        </div>
+      `;
+
+      await virtual.start({ container: document.body, switchModes: true });
+    });
+
+    it("should log the mode change, dialog entry and focus", async () => {
+      document.querySelector("input")!.focus();
+
+      const announcementLog = await virtual.announcementLog();
+
+      expect(
+        announcementLog.map(({ node, source, spokenPhrase }) => ({
+          node,
+          source,
+          spokenPhrase,
+        }))
+      ).toEqual([
+        { node: document.body, source: "navigation", spokenPhrase: "document" },
+        { node: null, source: "mode-change", spokenPhrase: "focus mode" },
+        {
+          node: document.querySelector('[role="dialog"]'),
+          source: "dialog-entry",
+          spokenPhrase: "dialog, Settings",
+        },
+        {
+          node: document.querySelector("input"),
+          source: "focus",
+          spokenPhrase: "textbox, Name",
+        },
+      ]);
+    });
+  });
+
+  describe("when live regions update", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <div id="status" role="status"></div>
+        <div id="alert" role="alert"></div>
+      `;
+
+      await virtual.start({ container: document.body });
+    });
+
+    it("should log the politeness of the update as the source", async () => {
+      document.querySelector("#status")!.textContent = "Saved";
+
+      await waitFor(async () =>
+        expect(await virtual.lastSpokenPhrase()).toBe("polite: Saved")
+      );
+
+      document.querySelector("#alert")!.textContent = "Failed";
+
+      await waitFor(async () =>
+        expect(await virtual.lastSpokenPhrase()).toBe("assertive: Failed")
+      );
+
+      const announcementLog = await virtual.announcementLog();
+
+      expect(
+        announcementLog.map(({ cssPath, role, source, spokenPhrase }) => ({
+          cssPath,
+          role,
+          source,
+          spokenPhrase,
+        }))
+      ).toEqual([
+        {
+          cssPath: "html > body",
+          role: "document",
+          source: "navigation",
+          spokenPhrase: "document",
+        },
+        {
+          cssPath: "#status",
+          role: "status",
+          source: "live-polite",
+          spokenPhrase: "polite: Saved",
+        },
+        {
+          cssPath: "#alert",
+          role: "alert",
+          source: "live-assertive",
+          spokenPhrase: "assertive: Failed",
+        },
+      ]);
+    });
+  });
+
+  describe("when a node's spoken phrase starts with a live region politeness", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = "<button>polite request</button>";
+
+      await virtual.start({ container: document.body, profile: "jaws" });
+    });
+
+    it("should not announce the node again when nothing has changed", async () => {
+      document.querySelector("button")!.focus();
+      await virtual.press("Shift");
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "polite request button",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { virtual } from "../../src/index.js";
+import { waitFor } from "@testing-library/dom";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve));
+
+describe("Aria Busy", () => {
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  describe("when a live region is busy", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <section aria-label="Search">
+          <ul id="results" aria-live="polite" aria-busy="true"></ul>
+        </section>
+      `;
+
+      await virtual.start({ container: document.body });
+    });
+
+    it("should announce the changes made while busy as one update once settled", async () => {
+      const results = document.querySelector("#results")!;
+
+      for (let index = 1; index <= 20; index++) {
+        results.insertAdjacentHTML("beforeend", `<li>Result ${index}</li> `);
+        await tick();
+      }
+
+      expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+
+      results.setAttribute("aria-busy", "false");
+
+      const expectedResults = Array.from(
+        { length: 20 },
+        (_, index) => `Result ${index + 1}`
+      ).join(" ");
+
+      await waitFor(async () =>
+        expect(await virtual.spokenPhraseLog()).toEqual([
+          "document",
+          `polite: ${expectedResults}`,
+        ])
+      );
+    });
+
+    it("should announce one update when the changes and settling happen together", async () => {
+      const results = document.querySelector("#results")!;
+
+      results.innerHTML = "<li>Result 1</li>";
+      results.insertAdjacentHTML("beforeend", " <li>Result 2</li>");
+      results.setAttribute("aria-busy", "false");
+
+      await waitFor(async () =>
+        expect(await virtual.spokenPhraseLog()).toEqual([
+          "document",
+          "polite: Result 1 Result 2",
+        ])
+      );
+    });
+
+    it("should not announce changes while the region remains busy", async () => {
+      document.querySelector("#results")!.innerHTML = "<li>Result 1</li>";
+      await tick();
+
+      expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+    });
+
+    it("should hold back changes while an ancestor of the region is busy", async () => {
+      const section = document.querySelector("section")!;
+      const results = document.querySelector("#results")!;
+
+      results.setAttribute("aria-busy", "false");
+      section.setAttribute("aria-busy", "true");
+      await tick();
+
+      results.innerHTML = "<li>Result 1</li>";
+      await tick();
+
+      expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+
+      section.setAttribute("aria-busy", "false");
+
+      await waitFor(async () =>
+        expect(await virtual.spokenPhraseLog()).toEqual([
+          "document",
+          "polite: Result 1",
+        ])
+      );
+    });
+  });
+
+  describe("when a feed is busy", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <div role="feed" aria-label="News" aria-busy="true">
+          <article aria-label="First">
+            <p id="first-likes" aria-live="polite">0 likes</p>
+          </article>
+          <article aria-label="Second">
+            <p id="second-likes" aria-live="polite">0 likes</p>
+          </article>
+        </div>
+      `;
+
+      await virtual.start({ container: document.body });
+    });
+
+    it("should not hold back changes to the article being read", async () => {
+      await virtual.next();
+      await virtual.next();
+      await virtual.next();
+      await virtual.next();
+
+      expect(await virtual.lastSpokenPhrase()).toBe("0 likes");
+
+      document.querySelector("#first-likes")!.textContent = "1 like";
+      document.querySelector("#second-likes")!.textContent = "2 likes";
+
+      await waitFor(async () =>
+        expect(await virtual.lastSpokenPhrase()).toBe("polite: 1 like")
+      );
+
+      document
+        .querySelector('[role="feed"]')!
+        .setAttribute("aria-busy", "false");
+
+      await waitFor(async () =>
+        expect(await virtual.lastSpokenPhrase()).toBe("polite: 2 likes")
+      );
+    });
+  });
+});
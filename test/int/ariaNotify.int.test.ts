@@ -0,0 +1,107 @@
+import { virtual } from "../../src/index.js";
+import { waitFor } from "@testing-library/dom";
+
+type AriaNotify = (
+  announcement: string,
+  options?: { priority?: "high" | "normal" } | null
+) => void;
+
+const ariaNotify = (node: Node, ...args: Parameters<AriaNotify>) =>
+  (node as unknown as { ariaNotify: AriaNotify }).ariaNotify(...args);
+
+describe("ariaNotify", () => {
+  beforeEach(async () => {
+    document.body.innerHTML = `
+      <button id="save">Save</button>
+      <div role="status" id="status"></div>
+    `;
+
+    await virtual.start({ container: document.body });
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should announce element notifications with their priority", async () => {
+    ariaNotify(document.querySelector("#save")!, "Saved");
+
+    await waitFor(async () =>
+      expect(await virtual.lastAnnouncement()).toEqual(
+        expect.objectContaining({
+          node: document.querySelector("#save"),
+          role: "button",
+          source: "notify-normal",
+          spokenPhrase: "normal: Saved",
+        })
+      )
+    );
+  });
+
+  it("should announce document notifications", async () => {
+    ariaNotify(document, "Connection lost", { priority: "high" });
+
+    expect(await virtual.lastAnnouncement()).toEqual(
+      expect.objectContaining({
+        node: null,
+        source: "notify-high",
+        spokenPhrase: "high: Connection lost",
+      })
+    );
+  });
+
+  it("should treat null options as no options", async () => {
+    ariaNotify(document, "Saved", null);
+
+    await waitFor(async () =>
+      expect(await virtual.lastSpokenPhrase()).toBe("normal: Saved")
+    );
+  });
+
+  it("should queue normal priority notifications after the current navigation", async () => {
+    ariaNotify(document, "Saved");
+    await virtual.next();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "normal: Saved",
+      "button, Save",
+    ]);
+  });
+
+  it("should announce high priority notifications immediately and clear queued updates", async () => {
+    document.querySelector("#status")!.textContent = "Saving";
+    ariaNotify(document, "Saved");
+    ariaNotify(document, "Save failed", { priority: "high" });
+
+    await waitFor(async () =>
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "high: Save failed",
+        "polite: Saving",
+      ])
+    );
+  });
+
+  it("should not announce notifications from outside of the container", async () => {
+    await virtual.stop();
+
+    document.body.innerHTML = `
+      <main><p>Inside</p></main>
+      <aside><p>Outside</p></aside>
+    `;
+
+    await virtual.start({ container: document.querySelector("main")! });
+
+    ariaNotify(document.querySelector("aside")!, "Outside");
+
+    expect(await virtual.spokenPhraseLog()).toEqual(["main"]);
+  });
+
+  it("should remove ariaNotify when stopped", async () => {
+    await virtual.stop();
+
+    expect("ariaNotify" in document.body).toBe(false);
+  });
+});
@@ -35,8 +35,7 @@ describe("Aria Relevant", () => {
     expect(await virtual.spokenPhraseLog()).toEqual([
       "document",
       "button, Test aria-relevant missing",
-      "assertive: DOM was added",
-      "assertive: Content changed",
+      "assertive: DOM was added, Content changed",
     ]);
 
     await virtual.stop();
@@ -116,8 +115,7 @@ describe("Aria Relevant", () => {
     expect(await virtual.spokenPhraseLog()).toEqual([
       "document",
       "button, Test aria-relevant additions text",
-      "assertive: DOM was added",
-      "assertive: Content changed",
+      "assertive: DOM was added, Content changed",
     ]);
 
     await virtual.stop();
@@ -144,9 +142,7 @@ describe("Aria Relevant", () => {
     expect(await virtual.spokenPhraseLog()).toEqual([
       "document",
       "button, Test aria-relevant all",
-      "assertive: DOM was added",
-      "assertive: removal: DOM was removed",
-      "assertive: Content changed",
+      "assertive: DOM was added, removal: DOM was removed, Content changed",
     ]);
 
     await virtual.stop();
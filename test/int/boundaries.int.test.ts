@@ -0,0 +1,153 @@
+import { virtual, VirtualNavigationError } from "../../src/index.js";
+
+describe("Boundaries", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <h1>Title</h1>
+      <p>Text</p>
+    `;
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  describe("when wrapping", () => {
+    beforeEach(async () => {
+      await virtual.start({
+        announceBoundaries: true,
+        container: document.body,
+      });
+    });
+
+    it("should announce wrapping to the top when moving past the last item", async () => {
+      await virtual.next();
+
+      while ((await virtual.lastSpokenPhrase()) !== "document") {
+        await virtual.next();
+      }
+
+      expect((await virtual.spokenPhraseLog()).slice(-3)).toEqual([
+        "end of document",
+        "wrapping to top",
+        "document",
+      ]);
+    });
+
+    it("should announce wrapping to the bottom when moving before the first item", async () => {
+      await virtual.previous();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "wrapping to bottom",
+        "end of document",
+      ]);
+    });
+
+    it("should announce when quick navigation finds no further item", async () => {
+      await virtual.perform(virtual.commands.moveToNextLink);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "no next link",
+      ]);
+    });
+
+    it("should announce wrapping when quick navigation wraps around", async () => {
+      await virtual.perform(virtual.commands.moveToNextHeading);
+      await virtual.perform(virtual.commands.moveToNextHeading);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "heading, Title, level 1",
+        "wrapping to top",
+        "heading, Title, level 1",
+      ]);
+    });
+  });
+
+  describe("when stopping", () => {
+    beforeEach(async () => {
+      await virtual.start({
+        announceBoundaries: true,
+        boundaryBehavior: "stop",
+        container: document.body,
+      });
+    });
+
+    it("should stay on the first item and announce the top of the document", async () => {
+      await virtual.previous();
+      await virtual.next();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "top of document",
+        "heading, Title, level 1",
+      ]);
+    });
+
+    it("should stay on the last item and announce the bottom of the document", async () => {
+      while ((await virtual.lastSpokenPhrase()) !== "end of document") {
+        await virtual.next();
+      }
+
+      await virtual.next();
+      await virtual.previous();
+
+      expect((await virtual.spokenPhraseLog()).slice(-3)).toEqual([
+        "end of document",
+        "bottom of document",
+        "end of paragraph",
+      ]);
+    });
+
+    it("should not wrap quick navigation", async () => {
+      await virtual.perform(virtual.commands.moveToNextHeading);
+      await virtual.perform(virtual.commands.moveToNextHeading);
+      await virtual.next();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "heading, Title, level 1",
+        "no next heading",
+        "paragraph",
+      ]);
+    });
+  });
+
+  describe("when strict", () => {
+    beforeEach(async () => {
+      await virtual.start({
+        boundaryBehavior: "stop",
+        container: document.body,
+        strictNavigation: true,
+      });
+    });
+
+    it("should throw when quick navigation finds no further item", async () => {
+      await expect(
+        virtual.perform(virtual.commands.moveToNextHeadingLevel2)
+      ).rejects.toThrow(VirtualNavigationError);
+    });
+
+    it("should throw with the failed navigation phrase", async () => {
+      await expect(virtual.previous()).rejects.toMatchObject({
+        spokenPhrase: "top of document",
+      });
+    });
+
+    it("should not announce the boundary with the generic profile", async () => {
+      await virtual.perform(virtual.commands.moveToNextLink).catch(() => {});
+
+      expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+    });
+  });
+
+  it("should announce boundaries by default with screen reader profiles", async () => {
+    await virtual.start({ container: document.body, profile: "nvda" });
+    await virtual.perform(virtual.commands.moveToNextLink);
+
+    expect(await virtual.lastSpokenPhrase()).toBe("no next link");
+  });
+});
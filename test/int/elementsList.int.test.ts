@@ -0,0 +1,105 @@
+import { virtual } from "../../src/index.js";
+
+describe("Elements List", () => {
+  beforeEach(async () => {
+    document.body.innerHTML = `
+      <header>Banner</header>
+      <nav aria-label="Primary">
+        <a href="/home">Home</a>
+        <a href="/about">About</a>
+      </nav>
+      <main>
+        <h1>Title</h1>
+        <img src="logo.png" alt="Logo" />
+        <h2>Subtitle</h2>
+        <form aria-label="Contact">
+          <input type="text" aria-label="Name" />
+          <input type="checkbox" aria-label="Subscribe" checked />
+          <button>Send</button>
+        </form>
+        <table aria-label="Prices">
+          <tr><th>Item</th></tr>
+          <tr><td>Tea</td></tr>
+        </table>
+      </main>
+    `;
+
+    await virtual.start({ container: document.body });
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should list the headings with their levels", async () => {
+    const headings = await virtual.elementsList("headings");
+
+    expect(
+      headings.map(({ accessibleName, level, spokenPhrase }) => ({
+        accessibleName,
+        level,
+        spokenPhrase,
+      }))
+    ).toEqual([
+      {
+        accessibleName: "Title",
+        level: 1,
+        spokenPhrase: "heading, Title, level 1",
+      },
+      {
+        accessibleName: "Subtitle",
+        level: 2,
+        spokenPhrase: "heading, Subtitle, level 2",
+      },
+    ]);
+    expect(headings[0].node).toBe(document.querySelector("h1"));
+  });
+
+  it.each([
+    ["links", ["link, Home", "link, About"]],
+    ["landmarks", ["banner", "navigation, Primary", "main", "form, Contact"]],
+    [
+      "formControls",
+      ["textbox, Name", "checkbox, Subscribe, checked", "button, Send"],
+    ],
+    ["tables", ["table, Prices"]],
+    ["images", ["image, Logo"]],
+  ] as const)("should list the %s", async (kind, expected) => {
+    const elements = await virtual.elementsList(kind);
+
+    expect(elements.map(({ spokenPhrase }) => spokenPhrase)).toEqual(expected);
+  });
+
+  it("should not log any spoken phrases when listing elements", async () => {
+    await virtual.elementsList("links");
+
+    expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+  });
+
+  it("should move to and announce an element from the list", async () => {
+    await virtual.moveToElement("links", 1);
+    await virtual.next();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "navigation, Primary",
+      "link, About",
+      "end of navigation, Primary",
+    ]);
+  });
+
+  it.each([2, -1, 0.5])(
+    "should throw when there is no element at the index %s",
+    async (index) => {
+      await expect(virtual.moveToElement("headings", index)).rejects.toThrow(
+        "The elements list has no element at the provided index"
+      );
+      expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+    }
+  );
+
+  it("should list no elements for an unknown kind", async () => {
+    expect(await virtual.elementsList("unknown" as never)).toEqual([]);
+  });
+});
@@ -0,0 +1,183 @@
+import { virtual } from "../../src/index.js";
+
+describe("Entering Containers", () => {
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  describe("when performing a command", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <nav aria-label="Primary">
+          <ul>
+            <li><a href="#home">Home</a></li>
+            <li><a href="#about">About</a></li>
+            <li><a href="#contact">Contact</a></li>
+          </ul>
+        </nav>
+        <main>
+          <h1>Heading</h1>
+        </main>
+      `;
+
+      await virtual.start({ container: document.body });
+    });
+
+    it("should announce each container entered from the outermost inwards", async () => {
+      await virtual.perform(virtual.commands.moveToNextLink);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "navigation, Primary",
+        "list, 3 items",
+        "link, Home",
+      ]);
+    });
+
+    it("should not announce containers the cursor is already in", async () => {
+      await virtual.perform(virtual.commands.moveToNextLink);
+      await virtual.perform(virtual.commands.moveToNextLink);
+      await virtual.perform(virtual.commands.moveToNextHeading);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "navigation, Primary",
+        "list, 3 items",
+        "link, Home",
+        "link, About",
+        "main",
+        "heading, Heading, level 1",
+      ]);
+    });
+
+    it("should not announce a container when moving onto the container itself", async () => {
+      await virtual.perform(virtual.commands.moveToNextNavigation);
+      await virtual.perform(virtual.commands.moveToNextLink);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "navigation, Primary",
+        "list, 3 items",
+        "link, Home",
+      ]);
+    });
+
+    it("should not change the output when moving through containers in order", async () => {
+      for (let i = 0; i < 5; i++) {
+        await virtual.next();
+      }
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "navigation, Primary",
+        "list",
+        "listitem, level 1, position 1, set size 3",
+        "link, Home",
+        "end of listitem, level 1, position 1, set size 3",
+      ]);
+    });
+  });
+
+  describe("when focus moves into a container", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <button>Before</button>
+        <fieldset>
+          <legend>Shipping address</legend>
+          <input type="text" aria-label="Street" />
+        </fieldset>
+        <div role="toolbar" aria-label="Formatting">
+          <button>Bold</button>
+        </div>
+        <div role="menu" aria-label="Actions">
+          <div role="menuitem" tabindex="-1">Copy</div>
+          <div role="menuitem" tabindex="-1">Paste</div>
+        </div>
+        <table aria-label="Results">
+          <tr><th>Name</th><th>Score</th></tr>
+          <tr><td>Ann</td><td><button>Edit</button></td></tr>
+        </table>
+      `;
+
+      await virtual.start({ container: document.body });
+    });
+
+    it("should announce a group with its name", async () => {
+      document.querySelector("input")!.focus();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "group, Shipping address",
+        "textbox, Street",
+      ]);
+    });
+
+    it("should announce a toolbar", async () => {
+      (document.querySelectorAll("button")[1] as HTMLButtonElement).focus();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "toolbar, Formatting, orientated horizontally",
+        "button, Bold",
+      ]);
+    });
+
+    it("should announce a menu with its number of items", async () => {
+      (document.querySelector('[role="menuitem"]') as HTMLElement).focus();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "menu, Actions, orientated vertically, 2 items",
+        "menuitem, Copy, position 1, set size 2",
+      ]);
+    });
+
+    it("should announce a table with its number of rows and columns", async () => {
+      (document.querySelectorAll("button")[2] as HTMLButtonElement).focus();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, Results, 2 rows, 2 columns",
+        "button, Edit",
+      ]);
+    });
+
+    it("should announce containers when keyboard interactions move focus", async () => {
+      document.querySelector("button")!.focus();
+      await virtual.press("Tab");
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "button, Before",
+        "group, Shipping address",
+        "textbox, Street",
+      ]);
+    });
+  });
+
+  describe("when focus moves into a dialog inside a container", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <main>
+          <div role="dialog" aria-label="Settings">
+            <button>Close</button>
+          </div>
+        </main>
+      `;
+
+      await virtual.start({ container: document.body });
+    });
+
+    it("should announce the containers outside the dialog before the dialog", async () => {
+      document.querySelector("button")!.focus();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "main",
+        "dialog, Settings",
+        "button, Close",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { type Announcement, virtual } from "../../src/index.js";
+import { waitFor } from "@testing-library/dom";
+
+describe("on / off", () => {
+  beforeEach(async () => {
+    document.body.innerHTML = `
+      <h1>Title</h1>
+      <input type="text" aria-label="Name" />
+      <div id="status" role="status"></div>
+    `;
+
+    await virtual.start({ container: document.body });
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should call announcement handlers as announcements are made", async () => {
+    const spokenPhrases: string[] = [];
+    const handleAnnouncement = ({ spokenPhrase }: Announcement) =>
+      spokenPhrases.push(spokenPhrase);
+
+    virtual.on("announcement", handleAnnouncement);
+    await virtual.next();
+    virtual.off("announcement", handleAnnouncement);
+    await virtual.next();
+
+    expect(spokenPhrases).toEqual(["heading, Title, level 1"]);
+  });
+
+  it("should call cursor move handlers when the cursor moves", async () => {
+    const handleCursorMove = jest.fn();
+
+    virtual.on("cursorMove", handleCursorMove);
+    await virtual.next();
+    await virtual.perform(virtual.commands.moveToPreviousHeading);
+    virtual.off("cursorMove", handleCursorMove);
+
+    expect(handleCursorMove).toHaveBeenCalledTimes(1);
+    expect(handleCursorMove).toHaveBeenCalledWith({
+      accessibilityNode: expect.objectContaining({
+        node: document.querySelector("h1"),
+      }),
+      previousAccessibilityNode: expect.objectContaining({
+        node: document.body,
+      }),
+    });
+  });
+
+  it("should call focus change and mode change handlers when focus moves", async () => {
+    const events: string[] = [];
+    const handleFocusChange = () => events.push("focusChange");
+    const handleModeChange = jest.fn(() => events.push("modeChange"));
+
+    await virtual.stop();
+    await virtual.start({ container: document.body, switchModes: true });
+
+    virtual.on("focusChange", handleFocusChange);
+    virtual.on("modeChange", handleModeChange);
+
+    document.querySelector("input")!.focus();
+    await virtual.lastSpokenPhrase();
+
+    virtual.off("focusChange", handleFocusChange);
+    virtual.off("modeChange", handleModeChange);
+
+    expect(events).toEqual(["focusChange", "modeChange"]);
+    expect(handleModeChange).toHaveBeenCalledWith({
+      mode: "focus",
+      previousMode: "browse",
+    });
+  });
+
+  it("should call live region handlers for live region announcements only", async () => {
+    const handleLiveRegion = jest.fn();
+
+    virtual.on("liveRegion", handleLiveRegion);
+    await virtual.next();
+    document.querySelector("#status")!.textContent = "Saved";
+
+    await waitFor(() => expect(handleLiveRegion).toHaveBeenCalledTimes(1));
+    virtual.off("liveRegion", handleLiveRegion);
+
+    expect(handleLiveRegion).toHaveBeenCalledWith(
+      expect.objectContaining({
+        source: "live-polite",
+        spokenPhrase: "polite: Saved",
+      })
+    );
+  });
+
+  it("should carry on navigating and announcing when a handler throws", async () => {
+    const handleError = () => {
+      throw new Error("Handler error");
+    };
+
+    virtual.on("cursorMove", handleError);
+    virtual.on("liveRegion", handleError);
+    virtual.on("diagnostic", handleError);
+    await virtual.next();
+    await virtual.next();
+    document.querySelector("#status")!.textContent = "Saved";
+
+    await waitFor(async () =>
+      expect(await virtual.lastSpokenPhrase()).toBe("polite: Saved")
+    );
+    virtual.off("cursorMove", handleError);
+    virtual.off("liveRegion", handleError);
+    virtual.off("diagnostic", handleError);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "heading, Title, level 1",
+      "textbox, Name",
+      "polite: Saved",
+    ]);
+    expect(
+      (await virtual.diagnosticLog()).map(({ code, node }) => ({ code, node }))
+    ).toEqual([
+      { code: "event-handler-error", node: null },
+      { code: "event-handler-error", node: null },
+      { code: "event-handler-error", node: null },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { virtual } from "../../src/index.js";
+
+/**
+ * REF: https://www.w3.org/TR/wai-aria-1.2/#feed
+ */
+describe("Feed", () => {
+  beforeEach(async () => {
+    document.body.innerHTML = `
+      <h1>News</h1>
+      <div role="feed" aria-label="Stories" aria-busy="false">
+        <article id="first" tabindex="-1" aria-posinset="1" aria-setsize="3" aria-labelledby="first-title">
+          <h2 id="first-title">First story</h2>
+        </article>
+        <article id="second" tabindex="-1" aria-posinset="2" aria-setsize="3" aria-labelledby="second-title">
+          <h2 id="second-title">Second story</h2>
+          <a href="#second">Read more</a>
+        </article>
+        <article id="third" aria-posinset="3" aria-setsize="3" aria-labelledby="third-title">
+          <h2 id="third-title">Third story</h2>
+          <button>Share</button>
+        </article>
+      </div>
+      <button>After</button>
+    `;
+
+    await virtual.start({ container: document.body });
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should focus the article under the reading cursor when moving between articles", async () => {
+    await virtual.next();
+    await virtual.next();
+    await virtual.next();
+
+    expect(document.activeElement?.id).toBe("first");
+
+    await virtual.next();
+    await virtual.next();
+    await virtual.next();
+
+    expect(document.activeElement?.id).toBe("second");
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "heading, News, level 1",
+      "feed, Stories, not busy",
+      "article, First story, position 1, set size 3",
+      "heading, First story, level 2",
+      "end of article, First story, position 1, set size 3",
+      "article, Second story, position 2, set size 3",
+    ]);
+  });
+
+  it("should focus a focusable element under the reading cursor in lieu of the article", async () => {
+    await virtual.perform(virtual.commands.moveToNextLink);
+
+    expect(document.activeElement).toBe(document.querySelector("#second a"));
+  });
+
+  it("should focus the first focusable element in an article which is not focusable", async () => {
+    await virtual.perform(virtual.commands.moveToNextArticle);
+    await virtual.perform(virtual.commands.moveToNextArticle);
+    await virtual.perform(virtual.commands.moveToNextArticle);
+
+    expect(document.activeElement).toBe(
+      document.querySelector("#third button")
+    );
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "article, First story, position 1, set size 3",
+      "article, Second story, position 2, set size 3",
+      "article, Third story, position 3, set size 3",
+    ]);
+  });
+
+  it("should not move focus while the cursor stays within an article", async () => {
+    await virtual.perform(virtual.commands.moveToNextArticle);
+    document.querySelector<HTMLElement>("#first")!.blur();
+    await virtual.next();
+
+    expect(await virtual.lastSpokenPhrase()).toBe(
+      "heading, First story, level 2"
+    );
+    expect(document.activeElement).toBe(document.body);
+  });
+
+  it("should move to the previous article", async () => {
+    await virtual.perform(virtual.commands.moveToNextArticle);
+    await virtual.perform(virtual.commands.moveToNextArticle);
+    await virtual.perform(virtual.commands.moveToPreviousArticle);
+
+    expect(document.activeElement?.id).toBe("first");
+    expect(await virtual.lastSpokenPhrase()).toBe(
+      "article, First story, position 1, set size 3"
+    );
+  });
+
+  it("should not move focus for articles outside of a feed", async () => {
+    document.body.innerHTML = `
+      <article tabindex="-1" aria-label="Standalone"><p>Text</p></article>
+    `;
+
+    await virtual.perform(virtual.commands.moveToNextArticle);
+
+    expect(document.activeElement).toBe(document.body);
+  });
+});
@@ -0,0 +1,120 @@
+import { type SpokenPhraseFormatter, virtual } from "../../src/index.js";
+import { waitFor } from "@testing-library/dom";
+
+const formatSpokenPhrase: SpokenPhraseFormatter = (
+  _accessibilityNode,
+  { accessibleName, live, spokenRole }
+) =>
+  [`<${spokenRole || "text"}>`, accessibleName, live && `(${live})`]
+    .filter(Boolean)
+    .join(" ");
+
+describe("formatSpokenPhrase / formatItemText", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <nav aria-label="Primary">
+        <a href="#home">Home</a>
+      </nav>
+      <h2 aria-describedby="hint">Settings</h2>
+      <p id="hint">Your preferences</p>
+      <button>Save</button>
+      <div id="status" role="status"></div>
+    `;
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should use the custom formatter when navigating and leaving containers", async () => {
+    await virtual.start({ container: document.body, formatSpokenPhrase });
+
+    for (let i = 0; i < 4; i++) {
+      await virtual.next();
+    }
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "<document>",
+      "<navigation> Primary",
+      "<link> Home",
+      "<end of navigation> Primary",
+      "<heading> Settings",
+    ]);
+  });
+
+  it("should use the custom formatter when focus moves", async () => {
+    await virtual.start({ container: document.body, formatSpokenPhrase });
+
+    document.querySelector("button")!.focus();
+
+    expect(await virtual.lastSpokenPhrase()).toBe("<button> Save");
+  });
+
+  it("should use the custom formatter for live region updates", async () => {
+    await virtual.start({ container: document.body, formatSpokenPhrase });
+
+    document.querySelector("#status")!.textContent = "Saved";
+
+    await waitFor(async () =>
+      expect(await virtual.lastSpokenPhrase()).toBe("polite: <status> (polite)")
+    );
+  });
+
+  it("should use the custom formatter for container entry announcements", async () => {
+    await virtual.start({ container: document.body, formatSpokenPhrase });
+    await virtual.perform(virtual.commands.moveToNextLink);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "<document>",
+      "<navigation> Primary",
+      "<link> Home",
+    ]);
+  });
+
+  it("should pass the parts of the phrase computed by the Virtual Screen Reader", async () => {
+    const spy = jest.fn<string, Parameters<SpokenPhraseFormatter>>(
+      (_accessibilityNode, { spokenPhrase }) => spokenPhrase
+    );
+
+    await virtual.start({ container: document.body, formatSpokenPhrase: spy });
+    await virtual.perform(virtual.commands.moveToNextHeading);
+
+    const [accessibilityNode, context] = spy.mock.calls.at(-1)!;
+
+    expect(accessibilityNode.node).toBe(document.querySelector("h2"));
+    expect(context).toEqual({
+      accessibleAttributeToLabelMap: {
+        "aria-level": { label: "level 2", value: "2" },
+      },
+      accessibleDescription: "Your preferences",
+      accessibleName: "Settings",
+      accessibleValue: "",
+      itemText: "Settings",
+      live: undefined,
+      spokenPhrase: "heading, Settings, Your preferences, level 2",
+      spokenRole: "heading",
+    });
+    expect(await virtual.lastSpokenPhrase()).toBe(
+      "heading, Settings, Your preferences, level 2"
+    );
+  });
+
+  it("should use the custom item text formatter", async () => {
+    await virtual.start({
+      container: document.body,
+      formatItemText: (_accessibilityNode, { accessibleName, itemText }) =>
+        accessibleName ? accessibleName.toUpperCase() : itemText,
+    });
+
+    await virtual.next();
+    await virtual.next();
+
+    expect(await virtual.itemTextLog()).toEqual(["", "PRIMARY", "HOME"]);
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "navigation, Primary",
+      "link, Home",
+    ]);
+  });
+});
@@ -0,0 +1,134 @@
+import { virtual } from "../../src/index.js";
+
+describe("Group Interaction", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <nav aria-label="Primary">
+        <a href="/home">Home</a>
+        <ul aria-label="Products">
+          <li>Tea</li>
+          <li>Coffee</li>
+        </ul>
+        <a href="/about">About</a>
+      </nav>
+      <p>After</p>
+    `;
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should move between the children of a group, treating nested groups as single stops", async () => {
+    await virtual.start({
+      container: document.body,
+      profile: "voiceover-macos",
+    });
+
+    await virtual.next();
+    await virtual.clearSpokenPhraseLog();
+
+    await virtual.interact();
+    await virtual.next();
+    await virtual.next();
+    await virtual.next();
+    await virtual.previous();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "in Primary, navigation",
+      "Home, link",
+      "Products, list",
+      "About, link",
+      "Products, list",
+    ]);
+    expect(virtual.mode).toBe("browse");
+  });
+
+  it("should interact with nested groups and move back out a level at a time", async () => {
+    await virtual.start({
+      container: document.body,
+      profile: "voiceover-macos",
+    });
+
+    await virtual.next();
+    await virtual.interact();
+    await virtual.next();
+    await virtual.interact();
+    await virtual.next();
+    await virtual.clearSpokenPhraseLog();
+
+    await virtual.stopInteracting();
+    await virtual.next();
+    await virtual.stopInteracting();
+    await virtual.next();
+    await virtual.next();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "out of Products, list",
+      "Products, list",
+      "About, link",
+      "out of Primary, navigation",
+      "Primary, navigation",
+      "paragraph",
+      "After",
+    ]);
+  });
+
+  it("should move into a group left at the top level once the cursor has moved away from it", async () => {
+    await virtual.start({
+      container: document.body,
+      profile: "voiceover-macos",
+    });
+
+    await virtual.next();
+    await virtual.interact();
+    await virtual.stopInteracting();
+    await virtual.previous();
+    await virtual.next();
+    await virtual.next();
+
+    expect(await virtual.lastSpokenPhrase()).toBe("Home, link");
+  });
+
+  it("should not move past the first or last child of the group", async () => {
+    await virtual.start({
+      container: document.body,
+      profile: "voiceover-macos",
+    });
+
+    await virtual.next();
+    await virtual.interact();
+    await virtual.previous();
+
+    expect(await virtual.lastSpokenPhrase()).toBe("Home, link");
+  });
+
+  it("should switch to focus mode when interacting with an item which isn't a group", async () => {
+    await virtual.start({
+      container: document.body,
+      profile: "voiceover-macos",
+    });
+
+    await virtual.perform(virtual.commands.moveToNextLink);
+    await virtual.interact();
+
+    expect(virtual.mode).toBe("focus");
+    expect(await virtual.lastSpokenPhrase()).toBe("Home, link");
+  });
+
+  it("should switch to focus mode when interacting with groups is disabled", async () => {
+    await virtual.start({
+      container: document.body,
+      interactWithGroups: false,
+      profile: "voiceover-macos",
+    });
+
+    await virtual.next();
+    await virtual.interact();
+    await virtual.next();
+
+    expect(virtual.mode).toBe("focus");
+    expect(await virtual.lastSpokenPhrase()).toBe("Home, link");
+  });
+});
@@ -62,7 +62,7 @@ describe("inert", () => {
     ]);
   });
 
-  it("should hide inert elements from the tree unless they are modal dialog (native approximation assuming used `openModel()` method)", async () => {
+  it("should hide inert elements from the tree unless they are modal dialog (native dialog opened without `showModal()`)", async () => {
     document.body.innerHTML = `<p>visible paragraph</p>
 <p inert>hidden paragraph</p>
 
@@ -89,31 +89,58 @@ describe("inert", () => {
     <h1 id="dialog-heading-4">hidden dialog heading 4</h1>
   </dialog>
 
-  <!-- Open dialog should not inherit inert -->
+  <!-- Non-modal open dialog should inherit inert -->
   <dialog aria-labelledby="dialog-heading-5" open>
-    <h1 id="dialog-heading-5">visible dialog heading 5</h1>
+    <h1 id="dialog-heading-5">hidden dialog heading 5</h1>
+  </dialog>
+</div>
+`;
+
+    await virtual.start({ container: document.body });
+    await virtual.next();
+    await virtual.next();
+    await virtual.next();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "paragraph",
+      "visible paragraph",
+      "end of paragraph",
+    ]);
+  });
+
+  it("should hide everything but the modal dialog from the tree when a native dialog is opened with `showModal()`", async () => {
+    document.body.innerHTML = `<p>paragraph outside the dialog</p>
+
+<div inert>
+  <p>hidden paragraph</p>
+
+  <!-- Modal dialog should not inherit inert -->
+  <dialog aria-labelledby="dialog-heading">
+    <h1 id="dialog-heading">visible dialog heading</h1>
   </dialog>
 </div>
 `;
 
     await virtual.start({ container: document.body });
 
+    document.querySelector("dialog")!.showModal();
+
     while (
       (await virtual.lastSpokenPhrase()) !==
-      "end of dialog, visible dialog heading 5"
+      "end of dialog, visible dialog heading"
     ) {
       await virtual.next();
     }
 
+    await virtual.next();
+
     expect(await virtual.spokenPhraseLog()).toEqual([
       "document",
-      "paragraph",
-      "visible paragraph",
-      "end of paragraph",
-      "dialog, visible dialog heading 5",
-      "dialog, visible dialog heading 5",
-      "heading, visible dialog heading 5, level 1",
-      "end of dialog, visible dialog heading 5",
+      "dialog, visible dialog heading",
+      "heading, visible dialog heading, level 1",
+      "end of dialog, visible dialog heading",
+      "dialog, visible dialog heading",
     ]);
   });
 
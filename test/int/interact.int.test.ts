@@ -6,8 +6,13 @@ describe("interact / stopInteracting", () => {
     setupBasicPage();
   });
 
-  it("should not do anything", async () => {
-    await virtual.start({ container: document.body });
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should switch to focus mode and back to browse mode", async () => {
+    await virtual.start({ container: document.body, switchModes: true });
     await virtual.next();
     await virtual.interact();
     await virtual.next();
@@ -17,8 +22,46 @@ describe("interact / stopInteracting", () => {
     expect(await virtual.spokenPhraseLog()).toEqual([
       "document",
       "navigation",
+      "focus mode",
       "Nav Text",
+      "browse mode",
       "end of navigation",
     ]);
   });
+
+  it("should expose the current mode", async () => {
+    await virtual.start({ container: document.body });
+
+    expect(virtual.mode).toBe("browse");
+
+    await virtual.interact();
+
+    expect(virtual.mode).toBe("focus");
+
+    await virtual.stopInteracting();
+
+    expect(virtual.mode).toBe("browse");
+  });
+
+  it("should not announce the mode when it has not changed", async () => {
+    await virtual.start({ container: document.body, switchModes: true });
+    await virtual.interact();
+    await virtual.interact();
+    await virtual.stopInteracting();
+    await virtual.stopInteracting();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "focus mode",
+      "browse mode",
+    ]);
+  });
+
+  it("should switch mode without announcing it when modes are not enabled", async () => {
+    await virtual.start({ container: document.body });
+    await virtual.interact();
+
+    expect(virtual.mode).toBe("focus");
+    expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+  });
 });
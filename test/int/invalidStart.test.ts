@@ -1,6 +1,7 @@
 import {
   ERR_VIRTUAL_MISSING_CONTAINER,
   ERR_VIRTUAL_NOT_STARTED,
+  ERR_VIRTUAL_UNKNOWN_PROFILE,
 } from "../../src/errors.js";
 import { virtual } from "../../src/index.js";
 
@@ -29,6 +30,22 @@ describe("Invalid Start", () => {
     ).rejects.toThrowError(ERR_VIRTUAL_MISSING_CONTAINER);
   });
 
+  it.each(["orca", "toString"])(
+    "should throw if started with the unknown profile %s",
+    async (profile) => {
+      await expect(
+        async () =>
+          await virtual.start({
+            container: document.body,
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            profile: profile as any,
+          })
+      ).rejects.toThrowError(
+        `${ERR_VIRTUAL_UNKNOWN_PROFILE}: generic, jaws, nvda, talkback, voiceover-macos`
+      );
+    }
+  );
+
   it("should throw if use a method without starting first", async () => {
     await expect(async () => await virtual.next()).rejects.toThrowError(
       ERR_VIRTUAL_NOT_STARTED
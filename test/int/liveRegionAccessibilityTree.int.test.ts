@@ -0,0 +1,82 @@
+import { virtual } from "../../src/index.js";
+import { waitFor } from "@testing-library/dom";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve));
+
+describe("Live Regions in the Accessibility Tree", () => {
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should announce changes to nodes owned by a live region", async () => {
+    document.body.innerHTML = `
+      <ul role="log" aria-owns="messages"></ul>
+      <div id="messages"></div>
+    `;
+
+    await virtual.start({ container: document.body });
+
+    document
+      .querySelector("#messages")!
+      .insertAdjacentHTML("beforeend", "<p>Alice joined</p>");
+
+    await waitFor(async () =>
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "polite: Alice joined",
+      ])
+    );
+  });
+
+  it("should not announce changes to live regions hidden from the accessibility tree", async () => {
+    document.body.innerHTML = `
+      <div id="status" role="status" hidden></div>
+    `;
+
+    await virtual.start({ container: document.body });
+
+    document.querySelector("#status")!.textContent = "Saved";
+    await tick();
+
+    expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+  });
+
+  it("should not announce hidden content of an atomic live region", async () => {
+    document.body.innerHTML = `
+      <div id="status" role="status"></div>
+    `;
+
+    await virtual.start({ container: document.body });
+
+    document.querySelector("#status")!.innerHTML = `
+      <span aria-hidden="true">✔</span>
+      <span>Saved</span>
+    `;
+
+    await waitFor(async () =>
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "polite: Saved",
+      ])
+    );
+  });
+
+  it("should announce added content with its accessible name", async () => {
+    document.body.innerHTML = `
+      <div id="log" aria-live="polite"></div>
+    `;
+
+    await virtual.start({ container: document.body });
+
+    document.querySelector("#log")!.innerHTML =
+      '<img src="avatar.png" alt="Alice" />';
+
+    await waitFor(async () =>
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "polite: Alice",
+      ])
+    );
+  });
+});
@@ -0,0 +1,62 @@
+import { virtual } from "../../src/index.js";
+import { waitFor } from "@testing-library/dom";
+
+describe("Live Region Coalescing", () => {
+  beforeEach(async () => {
+    document.body.innerHTML = `
+      <div id="cart" aria-live="polite" aria-atomic="true">
+        <span id="count">0</span> items, total <span id="total">£0</span>
+      </div>
+      <ul id="log" role="log"></ul>
+      <div id="status" role="status"></div>
+    `;
+
+    await virtual.start({ container: document.body });
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should announce an atomic region updated by several mutations once with its final content", async () => {
+    document.querySelector("#count")!.textContent = "1";
+    document.querySelector("#total")!.textContent = "£5";
+    document.querySelector("#count")!.textContent = "2";
+    document.querySelector("#total")!.textContent = "£10";
+
+    await waitFor(async () =>
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "polite: 2 items, total £10",
+      ])
+    );
+  });
+
+  it("should join the additions to a non-atomic region into one announcement", async () => {
+    const log = document.querySelector("#log")!;
+
+    log.insertAdjacentHTML("beforeend", "<li>Alice joined</li>");
+    log.insertAdjacentHTML("beforeend", "<li>Bob joined</li>");
+
+    await waitFor(async () =>
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "polite: Alice joined, Bob joined",
+      ])
+    );
+  });
+
+  it("should announce each live region updated in the same batch separately", async () => {
+    document.querySelector("#log")!.innerHTML = "<li>Alice joined</li>";
+    document.querySelector("#status")!.textContent = "1 online";
+
+    await waitFor(async () =>
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "polite: Alice joined",
+        "polite: 1 online",
+      ])
+    );
+  });
+});
@@ -0,0 +1,111 @@
+import { virtual } from "../../src/index.js";
+import { waitFor } from "@testing-library/dom";
+
+function setupLiveRegionQueuePage() {
+  document.body.innerHTML = `
+    <button onclick="document.querySelector('#status').textContent = 'Saved'">Save</button>
+    <button>Next</button>
+    <div id="status" role="status"></div>
+    <div id="alert" role="alert"></div>
+  `;
+}
+
+describe("Live Region Queue", () => {
+  beforeEach(() => {
+    setupLiveRegionQueuePage();
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should announce polite updates once the current navigation has finished", async () => {
+    await virtual.start({ container: document.body });
+
+    document.querySelector("#status")!.textContent = "Saved";
+    await virtual.next();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "button, Save",
+      "polite: Saved",
+    ]);
+  });
+
+  it("should announce pending polite updates before responding to the user by default", async () => {
+    await virtual.start({ container: document.body });
+    await virtual.next();
+    await virtual.act();
+    await virtual.next();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "button, Save",
+      "polite: Saved",
+      "button, Next",
+    ]);
+  });
+
+  it("should cancel pending polite updates when the user performs an action with the cancel policy", async () => {
+    await virtual.start({
+      container: document.body,
+      pendingSpeechPolicy: "cancel",
+    });
+    await virtual.next();
+    await virtual.act();
+    await virtual.next();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "button, Save",
+      "button, Next",
+    ]);
+  });
+
+  it("should cancel pending polite updates when the user presses a key with the cancel policy", async () => {
+    await virtual.start({
+      container: document.body,
+      keyBindings: "nvda",
+      pendingSpeechPolicy: "cancel",
+    });
+    await virtual.next();
+    await virtual.act();
+    await virtual.press("ArrowDown");
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "button, Save",
+      "button, Next",
+    ]);
+  });
+
+  it("should announce polite updates which arrive while idle with the cancel policy", async () => {
+    await virtual.start({
+      container: document.body,
+      pendingSpeechPolicy: "cancel",
+    });
+    await virtual.next();
+    await virtual.act();
+
+    await waitFor(async () =>
+      expect(await virtual.lastSpokenPhrase()).toBe("polite: Saved")
+    );
+  });
+
+  it("should announce assertive updates immediately and clear queued polite updates", async () => {
+    await virtual.start({ container: document.body });
+
+    document.querySelector("#status")!.textContent = "Saved";
+    document.querySelector("#alert")!.textContent = "Failed";
+
+    await waitFor(async () =>
+      expect(await virtual.lastSpokenPhrase()).toBe("assertive: Failed")
+    );
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "assertive: Failed",
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { virtual } from "../../src/index.js";
+
+/**
+ * REF: https://www.w3.org/TR/wai-aria-1.2/#aria-modal
+ */
+describe("Displaying a modal dialog", () => {
+  beforeEach(async () => {
+    document.body.innerHTML = `
+      <h1>Page heading</h1>
+      <button>Open</button>
+      <div role="dialog" aria-modal="true" aria-labelledby="title" hidden>
+        <h2 id="title">Confirm</h2>
+        <p>Are you sure?</p>
+        <button>OK</button>
+      </div>
+      <dialog aria-label="Settings">
+        <p>Native settings</p>
+      </dialog>
+      <div role="dialog" aria-label="Tips" hidden>
+        <p>Non-modal tips</p>
+      </div>
+    `;
+
+    await virtual.start({ container: document.body });
+    await virtual.next();
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should move to a modal dialog which is displayed without moving focus", async () => {
+    document.querySelector<HTMLElement>('[aria-modal="true"]')!.hidden = false;
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "heading, Page heading, level 1",
+      "dialog, Confirm, modal",
+      "heading, Confirm, level 2",
+    ]);
+  });
+
+  it("should limit navigation to the displayed modal dialog", async () => {
+    document.querySelector<HTMLElement>('[aria-modal="true"]')!.hidden = false;
+    await virtual.lastSpokenPhrase();
+    await virtual.clearSpokenPhraseLog();
+
+    for (let i = 0; i < 7; i++) {
+      await virtual.next();
+    }
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "paragraph",
+      "Are you sure?",
+      "end of paragraph",
+      "button, OK",
+      "end of dialog, Confirm, modal",
+      "dialog, Confirm, modal",
+      "heading, Confirm, level 2",
+    ]);
+  });
+
+  it("should move to a native dialog which is opened with `showModal()` without moving focus", async () => {
+    document.querySelector("dialog")!.showModal();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "heading, Page heading, level 1",
+      "dialog, Settings",
+      "paragraph",
+    ]);
+  });
+
+  it("should not move the cursor when focus is moved into the modal dialog", async () => {
+    document.querySelector<HTMLElement>('[aria-modal="true"]')!.hidden = false;
+    document.querySelector<HTMLElement>('[role="dialog"] button')!.focus();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "heading, Page heading, level 1",
+      "dialog, Confirm, modal",
+      "button, OK",
+    ]);
+  });
+
+  it("should not move to a non-modal dialog", async () => {
+    document.querySelector<HTMLElement>('[aria-label="Tips"]')!.hidden = false;
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "heading, Page heading, level 1",
+    ]);
+  });
+});
@@ -0,0 +1,120 @@
+import { virtual } from "../../src/index.js";
+
+describe("Browse and Focus Mode", () => {
+  beforeEach(async () => {
+    document.body.innerHTML = `
+      <button>Before</button>
+      <input type="text" aria-label="Name" />
+      <input role="combobox" aria-label="Country" aria-expanded="false" />
+      <div role="grid" aria-label="Messages">
+        <div role="row"><div role="gridcell" tabindex="0">Hello</div></div>
+      </div>
+      <div role="application" aria-label="Editor" tabindex="0"></div>
+      <button>After</button>
+    `;
+
+    await virtual.start({ container: document.body, switchModes: true });
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should switch to focus mode when focus moves to a textbox and back when focus leaves", async () => {
+    document.querySelector("input")!.focus();
+    document.querySelector("button")!.focus();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "focus mode",
+      "textbox, Name",
+      "browse mode",
+      "button, Before",
+    ]);
+  });
+
+  it("should not switch or announce modes with the generic profile by default", async () => {
+    await virtual.stop();
+    await virtual.start({ container: document.body });
+
+    document.querySelector("input")!.focus();
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "textbox, Name",
+    ]);
+    expect(virtual.mode).toBe("browse");
+  });
+
+  it("should switch modes by default with the NVDA profile", async () => {
+    await virtual.stop();
+    await virtual.start({ container: document.body, profile: "nvda" });
+
+    document.querySelector("input")!.focus();
+    await virtual.lastSpokenPhrase();
+
+    expect(virtual.mode).toBe("focus");
+  });
+
+  it.each([
+    ['[role="combobox"]', "combobox"],
+    ['[role="gridcell"]', "grid"],
+    ['[role="application"]', "application"],
+  ])(
+    "should switch to focus mode when focus moves into a %s",
+    async (selector) => {
+      document.querySelector<HTMLElement>(selector)!.focus();
+      await virtual.lastSpokenPhrase();
+
+      expect(virtual.mode).toBe("focus");
+    }
+  );
+
+  it("should not switch mode automatically after the user has chosen to interact", async () => {
+    document.querySelector("input")!.focus();
+    await virtual.interact();
+    document.querySelector("button")!.focus();
+    await virtual.lastSpokenPhrase();
+
+    expect(virtual.mode).toBe("focus");
+
+    await virtual.stopInteracting();
+    document.querySelector("input")!.focus();
+    await virtual.lastSpokenPhrase();
+
+    expect(virtual.mode).toBe("focus");
+  });
+
+  it("should move the cursor with the arrow keys in browse mode", async () => {
+    await virtual.stop();
+    await virtual.start({ container: document.body, keyBindings: "nvda" });
+
+    await virtual.press("ArrowDown");
+    await virtual.press("ArrowDown");
+    await virtual.press("ArrowUp");
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "button, Before",
+      "textbox, Name",
+      "button, Before",
+    ]);
+  });
+
+  it("should pass the arrow keys through to the page in focus mode", async () => {
+    const handleKeyDown = jest.fn();
+    document.body.addEventListener("keydown", handleKeyDown);
+
+    await virtual.next();
+    await virtual.interact();
+    await virtual.press("ArrowDown");
+
+    expect(handleKeyDown).toHaveBeenCalledTimes(1);
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "button, Before",
+      "focus mode",
+    ]);
+  });
+});
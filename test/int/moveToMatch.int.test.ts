@@ -0,0 +1,124 @@
+import { virtual } from "../../src/index.js";
+
+describe("Move To Next / Previous matching element", () => {
+  beforeEach(async () => {
+    document.body.innerHTML = `
+      <input type="checkbox" aria-label="Email me" checked />
+      <button>Save draft</button>
+      <input type="checkbox" aria-label="Text me" />
+      <button aria-describedby="delete-hint">Delete</button>
+      <p id="delete-hint">Cannot be undone</p>
+      <input type="range" aria-label="Volume" value="30" />
+      <button>Save</button>
+    `;
+
+    await virtual.start({ container: document.body });
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should move to the next element matching a role and state", async () => {
+    await virtual.perform(virtual.commands.moveToNext, {
+      role: "checkbox",
+      state: { "aria-checked": "false" },
+    });
+
+    expect(await virtual.lastSpokenPhrase()).toBe(
+      "checkbox, Text me, not checked"
+    );
+  });
+
+  it("should move to the next element with a name matching a regular expression", async () => {
+    await virtual.perform(virtual.commands.moveToNext, {
+      role: "button",
+      name: /save/i,
+    });
+    await virtual.perform(virtual.commands.moveToNext, {
+      role: "button",
+      name: /save/i,
+    });
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "button, Save draft",
+      "button, Save",
+    ]);
+  });
+
+  it("should move to the next element with an exactly matching name", async () => {
+    await virtual.perform(virtual.commands.moveToNext, {
+      role: "button",
+      name: "Save",
+    });
+
+    expect(await virtual.lastSpokenPhrase()).toBe("button, Save");
+  });
+
+  it("should move to the next element with a name matching a predicate", async () => {
+    await virtual.perform(virtual.commands.moveToNext, {
+      name: (name) => name.startsWith("Text"),
+    });
+
+    expect(await virtual.lastSpokenPhrase()).toBe(
+      "checkbox, Text me, not checked"
+    );
+  });
+
+  it("should move to the next element matching any of several roles and a description", async () => {
+    await virtual.perform(virtual.commands.moveToNext, {
+      role: ["button", "link"],
+      description: "Cannot be undone",
+    });
+
+    expect(await virtual.lastSpokenPhrase()).toBe(
+      "button, Delete, Cannot be undone"
+    );
+  });
+
+  it("should move to the next element with a matching value", async () => {
+    await virtual.perform(virtual.commands.moveToNext, { value: "30" });
+
+    expect(await virtual.lastSpokenPhrase()).toBe(
+      "slider, Volume, 30, orientated horizontally, max value 100, min value 0"
+    );
+  });
+
+  it("should move to the previous matching element", async () => {
+    await virtual.perform(virtual.commands.moveToPrevious, {
+      role: "checkbox",
+    });
+    await virtual.perform(virtual.commands.moveToPrevious, {
+      role: "checkbox",
+    });
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "checkbox, Text me, not checked",
+      "checkbox, Email me, checked",
+    ]);
+  });
+
+  it("should not move when no element matches", async () => {
+    await virtual.perform(virtual.commands.moveToNext, {
+      role: "button",
+      name: "Publish",
+    });
+
+    expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+  });
+
+  it("should announce when no element matches with boundaries announced", async () => {
+    await virtual.stop();
+    await virtual.start({
+      announceBoundaries: true,
+      container: document.body,
+    });
+
+    await virtual.perform(virtual.commands.moveToPrevious, { role: "link" });
+
+    expect(await virtual.lastSpokenPhrase()).toBe("no previous item");
+  });
+});
@@ -0,0 +1,196 @@
+import { virtual } from "../../src/index.js";
+
+/**
+ * REF:
+ * - https://html.spec.whatwg.org/multipage/interactive-elements.html#the-dialog-element
+ * - https://html.spec.whatwg.org/multipage/interaction.html#modal-dialogs-and-inert-subtrees
+ */
+describe("Native dialog", () => {
+  beforeEach(async () => {
+    document.body.innerHTML = `
+      <h1>Page heading</h1>
+      <dialog aria-label="Inspector">
+        <button>Inspect</button>
+      </dialog>
+      <button>After</button>
+    `;
+
+    await virtual.start({ container: document.body });
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  describe("when opened with show()", () => {
+    beforeEach(async () => {
+      document.querySelector("dialog")!.show();
+      await virtual.lastSpokenPhrase();
+    });
+
+    it("should not make the rest of the document inert", async () => {
+      for (let i = 0; i < 5; i++) {
+        await virtual.next();
+      }
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "heading, Page heading, level 1",
+        "dialog, Inspector",
+        "dialog, Inspector",
+        "button, Inspect",
+        "end of dialog, Inspector",
+        "button, After",
+      ]);
+    });
+
+    it("should not confine navigation to the dialog", async () => {
+      document.querySelector<HTMLElement>("dialog button")!.focus();
+
+      await virtual.next();
+      await virtual.next();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "dialog, Inspector",
+        "button, Inspect",
+        "end of dialog, Inspector",
+        "button, After",
+      ]);
+    });
+  });
+
+  describe("when opened with showModal()", () => {
+    beforeEach(async () => {
+      document.querySelector("dialog")!.showModal();
+      document.querySelector<HTMLElement>("dialog button")!.focus();
+      await virtual.lastSpokenPhrase();
+    });
+
+    it("should make the rest of the document inert and confine navigation to the dialog", async () => {
+      await virtual.next();
+      await virtual.next();
+      await virtual.next();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "dialog, Inspector",
+        "button, Inspect",
+        "end of dialog, Inspector",
+        "dialog, Inspector",
+        "button, Inspect",
+      ]);
+    });
+
+    it("should no longer be modal once closed and reopened with show()", async () => {
+      const dialog = document.querySelector("dialog")!;
+
+      dialog.close();
+      dialog.show();
+      await virtual.next();
+      await virtual.next();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "dialog, Inspector",
+        "button, Inspect",
+        "end of dialog, Inspector",
+        "button, After",
+      ]);
+    });
+
+    it("should no longer be modal once closed and reopened with the open attribute", async () => {
+      const dialog = document.querySelector("dialog")!;
+
+      dialog.removeAttribute("open");
+      dialog.setAttribute("open", "");
+      await virtual.next();
+      await virtual.next();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "dialog, Inspector",
+        "button, Inspect",
+        "end of dialog, Inspector",
+        "button, After",
+      ]);
+    });
+
+    it("should stay modal when the open attribute is set again while open", async () => {
+      document.querySelector("dialog")!.setAttribute("open", "");
+      await virtual.next();
+      await virtual.next();
+
+      expect(await virtual.lastSpokenPhrase()).toBe("dialog, Inspector");
+    });
+  });
+
+  describe("when opened while already open", () => {
+    it("should do nothing when opened the same way again", async () => {
+      const dialog = document.querySelector("dialog")!;
+
+      dialog.show();
+      dialog.show();
+      dialog.close();
+      dialog.showModal();
+      dialog.showModal();
+
+      expect(dialog.hasAttribute("open")).toBe(true);
+    });
+
+    it("should throw an InvalidStateError when switching between modal and non-modal", async () => {
+      const dialog = document.querySelector("dialog")!;
+
+      dialog.show();
+
+      expect(() => dialog.showModal()).toThrow(
+        expect.objectContaining({ name: "InvalidStateError" })
+      );
+
+      dialog.close();
+      dialog.showModal();
+
+      expect(() => dialog.show()).toThrow(
+        expect.objectContaining({ name: "InvalidStateError" })
+      );
+    });
+  });
+
+  describe("when the DOM implementation provides the dialog methods", () => {
+    const prototype = HTMLDialogElement.prototype as Partial<HTMLDialogElement>;
+    const showModal = jest.fn(function (this: HTMLDialogElement) {
+      this.setAttribute("open", "");
+    });
+
+    beforeEach(async () => {
+      await virtual.stop();
+      prototype.showModal = showModal;
+      await virtual.start({ container: document.body });
+    });
+
+    afterEach(() => {
+      delete prototype.showModal;
+    });
+
+    it("should call through to the native method and restore it when stopped", async () => {
+      document.querySelector("dialog")!.showModal();
+      document.querySelector<HTMLElement>("dialog button")!.focus();
+      await virtual.next();
+      await virtual.next();
+
+      expect(showModal).toHaveBeenCalledTimes(1);
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "dialog, Inspector",
+        "button, Inspect",
+        "end of dialog, Inspector",
+        "dialog, Inspector",
+      ]);
+
+      await virtual.stop();
+
+      expect(prototype.showModal).toBe(showModal);
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { setupProfilePage } from "../utils.js";
+import { virtual } from "../../src/index.js";
+
+describe("Profiles", () => {
+  beforeEach(() => {
+    setupProfilePage();
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  describe.each([
+    {
+      profile: "generic",
+      spokenPhraseLog: [
+        "document",
+        "navigation, Primary",
+        "list",
+        "listitem, level 1, position 1, set size 1",
+        "link, Home",
+        "end of listitem, level 1, position 1, set size 1",
+        "end of list",
+        "end of navigation, Primary",
+        "main",
+        "heading, Title, level 1",
+        "Expand",
+        "Name",
+        "textbox, Name",
+        "checkbox, Subscribe, not checked",
+        "button, Submit",
+        "end of main",
+        "end of document",
+      ],
+    },
+    {
+      profile: "nvda",
+      spokenPhraseLog: [
+        "document",
+        "navigation Primary",
+        "list",
+        "link Home",
+        "out of list",
+        "out of navigation",
+        "main",
+        "heading level 1 Title",
+        "clickable Expand",
+        "Name",
+        "edit blank Name",
+        "check box not checked Subscribe",
+        "button Submit",
+        "out of main",
+        "out of document",
+      ],
+    },
+    {
+      profile: "jaws",
+      spokenPhraseLog: [
+        "document",
+        "Primary navigation",
+        "list",
+        "listitem level 1 position 1 set size 1",
+        "Home link",
+        "listitem end",
+        "list end",
+        "navigation end",
+        "main",
+        "Title heading level 1",
+        "Expand clickable",
+        "Name",
+        "Name edit blank",
+        "Subscribe check box not checked",
+        "Submit button",
+        "main end",
+        "document end",
+      ],
+    },
+    {
+      profile: "voiceover-macos",
+      spokenPhraseLog: [
+        "document",
+        "Primary, navigation",
+        "list",
+        "listitem level 1 position 1 set size 1",
+        "Home, link",
+        "end of listitem",
+        "end of list",
+        "end of navigation",
+        "main",
+        "Title, heading level 1",
+        "Expand, clickable",
+        "Name",
+        "Name, edit text",
+        "Subscribe, checkbox not checked",
+        "Submit, button",
+        "end of main",
+        "end of document",
+      ],
+    },
+    {
+      profile: "talkback",
+      spokenPhraseLog: [
+        "document",
+        "Primary, navigation",
+        "list",
+        "listitem, level 1, position 1, set size 1",
+        "Home, link",
+        "main",
+        "Title, heading, level 1",
+        "Expand",
+        "Name",
+        "Name, edit box",
+        "Subscribe, checkbox, not checked",
+        "Submit, button",
+      ],
+    },
+  ] as const)("$profile profile", ({ profile, spokenPhraseLog }) => {
+    it("should announce the page with the screen reader wording", async () => {
+      await virtual.start({ container: document.body, profile });
+
+      while ((await virtual.lastSpokenPhrase()) !== spokenPhraseLog.at(-1)) {
+        await virtual.next();
+      }
+
+      expect(await virtual.spokenPhraseLog()).toEqual(spokenPhraseLog);
+    });
+  });
+
+  describe.each([
+    { key: "h", profile: "nvda", spokenPhrase: "heading level 1 Title" },
+    { key: "q", profile: "jaws", spokenPhrase: "main" },
+  ] as const)("$profile key bindings", ({ key, profile, spokenPhrase }) => {
+    it("should use the screen reader key bindings by default", async () => {
+      await virtual.start({ container: document.body, profile });
+      await virtual.press(key);
+
+      expect(await virtual.lastSpokenPhrase()).toBe(spokenPhrase);
+    });
+  });
+
+  describe.each(["voiceover-macos", "talkback"] as const)(
+    "%s key bindings",
+    (profile) => {
+      it("should pass the keys through to a focused textbox", async () => {
+        const handleKeyDown = jest.fn();
+        document.body.addEventListener("keydown", handleKeyDown);
+
+        await virtual.start({ container: document.body, profile });
+        document.querySelector<HTMLInputElement>('input[type="text"]')!.focus();
+        await virtual.press("h");
+        await virtual.press("ArrowDown");
+
+        expect(handleKeyDown).toHaveBeenCalledTimes(2);
+        expect(
+          document.querySelector<HTMLInputElement>('input[type="text"]')!.value
+        ).toBe("h");
+        expect(await virtual.lastSpokenPhrase()).not.toMatch(/heading/);
+
+        document.body.removeEventListener("keydown", handleKeyDown);
+      });
+    }
+  );
+
+  it("should announce containers entered with the NVDA wording", async () => {
+    await virtual.start({ container: document.body, profile: "nvda" });
+    await virtual.perform(virtual.commands.moveToNextLink);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "navigation Primary",
+      "list 1 item",
+      "link Home",
+    ]);
+  });
+
+  it("should not announce leaving containers with the TalkBack wording", async () => {
+    await virtual.start({ container: document.body, profile: "talkback" });
+    await virtual.perform(virtual.commands.moveToNextLink);
+    await virtual.next();
+
+    expect(await virtual.lastSpokenPhrase()).toBe("main");
+  });
+});
@@ -0,0 +1,185 @@
+import { virtual } from "../../src/index.js";
+
+describe("Quick Navigation Keys", () => {
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <nav aria-label="Primary">
+        <a href="#home">Home</a>
+      </nav>
+      <main>
+        <h1>Title</h1>
+        <p>Introduction</p>
+        <h2>Section</h2>
+        <a href="#more">More</a>
+        <table aria-label="Results">
+          <tr><th>Name</th><th>Score</th></tr>
+          <tr><td>Ann</td><td>10</td></tr>
+        </table>
+        <input type="text" aria-label="Search" />
+      </main>
+    `;
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  describe("when using the generic profile", () => {
+    beforeEach(async () => {
+      await virtual.start({ container: document.body });
+    });
+
+    it("should pass the keys through to the page", async () => {
+      const handleKeyDown = jest.fn();
+      document.body.addEventListener("keydown", handleKeyDown);
+
+      await virtual.press("h");
+      await virtual.press("ArrowDown");
+
+      expect(handleKeyDown).toHaveBeenCalledTimes(2);
+      expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+
+      document.body.removeEventListener("keydown", handleKeyDown);
+    });
+  });
+
+  describe("when using the NVDA key bindings", () => {
+    beforeEach(async () => {
+      await virtual.start({
+        container: document.body,
+        keyBindings: "nvda",
+        switchModes: true,
+      });
+    });
+
+    it("should match keys however the letter case and modifiers are written", async () => {
+      await virtual.press("H");
+      await virtual.press("h");
+      await virtual.press("Shift+H");
+      await virtual.press("T");
+      await virtual.press("Alt+Control+ArrowRight");
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "main",
+        "heading, Section, level 2",
+        "heading, Title, level 1",
+        "heading, Section, level 2",
+        "table, Results",
+        "row 1, column 1, columnheader, Name",
+      ]);
+    });
+
+    it("should move between headings", async () => {
+      await virtual.press("h");
+      await virtual.press("h");
+      await virtual.press("Shift+h");
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "main",
+        "heading, Title, level 1",
+        "heading, Section, level 2",
+        "heading, Title, level 1",
+      ]);
+    });
+
+    it("should move between headings of a given level", async () => {
+      await virtual.press("2");
+      await virtual.press("Shift+1");
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "main",
+        "heading, Section, level 2",
+        "heading, Title, level 1",
+      ]);
+    });
+
+    it("should move between links, landmarks and tables", async () => {
+      await virtual.press("k");
+      await virtual.press("d");
+      await virtual.press("t");
+      await virtual.press("Control+Alt+ArrowRight");
+      await virtual.press("Control+Alt+ArrowDown");
+      await virtual.press("Shift+k");
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "navigation, Primary",
+        "link, Home",
+        "main",
+        "table, Results",
+        "row 1, column 1, columnheader, Name",
+        "row 2, column 1, Name, cell, Ann",
+        "link, More",
+      ]);
+    });
+
+    it("should pass the keys through to the page in focus mode", async () => {
+      await virtual.interact();
+      await virtual.press("h");
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "focus mode",
+      ]);
+    });
+
+    it("should pass the keys through to the page when focus is in a textbox", async () => {
+      document.querySelector("input")!.focus();
+      await virtual.press("h");
+
+      expect(document.querySelector("input")!.value).toBe("h");
+    });
+  });
+
+  describe("when using the JAWS key bindings", () => {
+    beforeEach(async () => {
+      await virtual.start({ container: document.body, keyBindings: "jaws" });
+    });
+
+    it("should move between landmarks and main regions", async () => {
+      await virtual.press("r");
+      await virtual.press("r");
+      await virtual.press("Shift+r");
+      await virtual.press("q");
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "navigation, Primary",
+        "main",
+        "navigation, Primary",
+        "main",
+      ]);
+    });
+
+    it("should not bind keys which JAWS does not use", async () => {
+      await virtual.press("d");
+
+      expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+    });
+  });
+
+  describe("when using custom key bindings", () => {
+    beforeEach(async () => {
+      await virtual.start({
+        container: document.body,
+        keyBindings: { j: "next", l: "moveToNextLink" },
+      });
+    });
+
+    it("should use the provided key bindings", async () => {
+      await virtual.press("j");
+      await virtual.press("l");
+      await virtual.press("h");
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "navigation, Primary",
+        "link, Home",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { virtual, type VirtualCommand } from "../../src/index.js";
+
+declare module "../../src/index.js" {
+  interface VirtualCustomCommands {
+    moveToNextCard: VirtualCommand<{ unread?: boolean }>;
+  }
+}
+
+const moveToNextCard: VirtualCommand<{ unread?: boolean }> = ({
+  currentIndex,
+  tree,
+  unread,
+}) => {
+  const index = tree.findIndex(
+    ({ node }, index) =>
+      index > currentIndex &&
+      node instanceof Element &&
+      node.classList.contains("card") &&
+      (!unread || node.classList.contains("unread"))
+  );
+
+  return index === -1 ? null : index;
+};
+
+describe("registerCommand", () => {
+  let unregister: (() => void) | undefined;
+
+  beforeEach(async () => {
+    document.body.innerHTML = `
+      <div class="card" role="group" aria-label="First card"></div>
+      <div class="card unread" role="group" aria-label="Second card"></div>
+      <input type="text" aria-label="Reply" />
+    `;
+
+    await virtual.start({ container: document.body });
+  });
+
+  afterEach(async () => {
+    unregister?.();
+    unregister = undefined;
+
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should perform a registered command with options", async () => {
+    unregister = virtual.registerCommand("moveToNextCard", moveToNextCard);
+
+    await virtual.perform("moveToNextCard", { unread: true });
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "group, Second card",
+    ]);
+  });
+
+  it("should list a registered command in the commands", () => {
+    unregister = virtual.registerCommand("moveToNextCard", moveToNextCard);
+
+    expect(virtual.commands.moveToNextCard).toBe("moveToNextCard");
+  });
+
+  it("should not perform a command after it has been unregistered", async () => {
+    virtual.registerCommand("moveToNextCard", moveToNextCard)();
+
+    await virtual.perform("moveToNextCard");
+
+    expect(virtual.commands).not.toHaveProperty("moveToNextCard");
+    expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+  });
+
+  it("should not allow a built-in command to be replaced", () => {
+    expect(() =>
+      virtual.registerCommand("moveToNextHeading", () => null)
+    ).toThrow("A built-in Virtual Screen Reader command can't be replaced");
+  });
+
+  it("should announce additional spoken phrases", async () => {
+    unregister = virtual.registerCommand("announceCount", () => ({
+      spokenPhrases: ["2 cards", "1 unread"],
+    }));
+
+    await virtual.perform("announceCount" as never);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "2 cards",
+      "1 unread",
+    ]);
+  });
+
+  it("should move focus and switch mode", async () => {
+    unregister = virtual.registerCommand("reply", () => ({
+      focusNode: document.querySelector("input")!,
+      mode: "focus",
+    }));
+
+    await virtual.perform("reply" as never);
+
+    expect(document.activeElement).toBe(document.querySelector("input"));
+    expect(virtual.mode).toBe("focus");
+  });
+});
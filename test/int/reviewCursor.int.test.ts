@@ -0,0 +1,230 @@
+import { virtual } from "../../src/index.js";
+
+describe("Review Cursor", () => {
+  beforeEach(async () => {
+    document.body.innerHTML = `
+      <p>Read <a href="/more">mo</a>re about <abbr title="HyperText Markup Language">HTML</abbr><span class="visually-hidden"> today</span></p>
+      <p>Second line</p>
+    `;
+
+    await virtual.start({ container: document.body });
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should read the line across inline elements", async () => {
+    await virtual.perform(virtual.commands.moveToNextLine);
+    await virtual.perform(virtual.commands.moveToNextLine);
+    await virtual.perform(virtual.commands.moveToPreviousLine);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "Read more about HTML today",
+      "Second line",
+      "Read more about HTML today",
+    ]);
+  });
+
+  it("should move by word, following a word split across a link", async () => {
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToPreviousWord);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "Read",
+      "more",
+      "about",
+      "HTML",
+      "today",
+      "Second",
+      "today",
+    ]);
+  });
+
+  it("should move by character across nodes and lines", async () => {
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+
+    for (let i = 0; i < 5; i++) {
+      await virtual.perform(virtual.commands.moveToNextCharacter);
+    }
+
+    await virtual.perform(virtual.commands.moveToPreviousCharacter);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "Read",
+      "more",
+      "o",
+      "r",
+      "e",
+      "space",
+      "a",
+      "space",
+    ]);
+    expect(virtual.activeNode).toBe(document.querySelector("a")!.nextSibling);
+  });
+
+  it("should read and spell the current word without moving", async () => {
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.readWord);
+    await virtual.perform(virtual.commands.spellWord);
+    await virtual.perform(virtual.commands.readCharacter);
+    await virtual.perform(virtual.commands.readLine);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "Read",
+      "more",
+      "about",
+      "HTML",
+      "HTML",
+      "H, T, M, L",
+      "H",
+      "Read more about HTML today",
+    ]);
+    expect(virtual.activeNode).toBe(document.querySelector("abbr")!.firstChild);
+  });
+
+  it("should restart from the start of a node after moving to it", async () => {
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextCharacter);
+    await virtual.next();
+    await virtual.perform(virtual.commands.readCharacter);
+
+    expect(await virtual.lastSpokenPhrase()).toBe("m");
+  });
+
+  it("should not move past the end of the text", async () => {
+    await virtual.perform(virtual.commands.moveToNextLine);
+    await virtual.perform(virtual.commands.moveToNextLine);
+    await virtual.perform(virtual.commands.moveToNextLine);
+
+    expect(await virtual.lastSpokenPhrase()).toBe("Second line");
+  });
+
+  it("should move by character to the next and previous lines", async () => {
+    await virtual.perform(virtual.commands.moveToNextLine);
+    await virtual.perform(virtual.commands.moveToPreviousCharacter);
+    await virtual.perform(virtual.commands.moveToNextLine);
+    await virtual.perform(virtual.commands.moveToPreviousCharacter);
+    await virtual.perform(virtual.commands.moveToNextCharacter);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "Read more about HTML today",
+      "Second line",
+      "y",
+      "S",
+    ]);
+  });
+
+  it("should move to the first character from before the text", async () => {
+    await virtual.perform(virtual.commands.moveToNextCharacter);
+
+    expect(await virtual.lastSpokenPhrase()).toBe("R");
+  });
+
+  it("should move by word within a line and to the start of the text", async () => {
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToPreviousWord);
+    await virtual.perform(virtual.commands.moveToPreviousWord);
+    await virtual.perform(virtual.commands.moveToPreviousCharacter);
+    await virtual.perform(virtual.commands.moveToPreviousLine);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "Read",
+      "more",
+      "Read",
+    ]);
+  });
+
+  it("should not move past the end of the text by word", async () => {
+    await virtual.perform(virtual.commands.moveToNextLine);
+    await virtual.perform(virtual.commands.moveToNextLine);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextWord);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "Read more about HTML today",
+      "Second line",
+      "line",
+    ]);
+  });
+
+  it("should move back into the text from after the end of it", async () => {
+    while ((await virtual.lastSpokenPhrase()) !== "end of document") {
+      await virtual.next();
+    }
+
+    await virtual.clearSpokenPhraseLog();
+    await virtual.perform(virtual.commands.moveToNextCharacter);
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.moveToNextLine);
+    await virtual.perform(virtual.commands.readCharacter);
+    await virtual.perform(virtual.commands.moveToPreviousWord);
+
+    expect(await virtual.spokenPhraseLog()).toEqual(["line"]);
+  });
+
+  it("should not read a word when on the space between words", async () => {
+    await virtual.perform(virtual.commands.moveToNextWord);
+
+    for (let i = 0; i < 4; i++) {
+      await virtual.perform(virtual.commands.moveToNextCharacter);
+    }
+
+    await virtual.perform(virtual.commands.readWord);
+    await virtual.perform(virtual.commands.spellWord);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "Read",
+      "e",
+      "a",
+      "d",
+      "space",
+    ]);
+  });
+
+  it("should spell the characters of a word", async () => {
+    await virtual.perform(virtual.commands.moveToNextWord);
+    await virtual.perform(virtual.commands.spellWord);
+
+    expect(await virtual.lastSpokenPhrase()).toBe("R, e, a, d");
+  });
+
+  it("should not read the text before moving to it", async () => {
+    await virtual.perform(virtual.commands.readCharacter);
+    await virtual.perform(virtual.commands.readWord);
+    await virtual.perform(virtual.commands.readLine);
+
+    expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+  });
+
+  it("should not read the text when the current node has changed", async () => {
+    await virtual.perform(virtual.commands.moveToNextLine);
+    await virtual.perform(virtual.commands.moveToNextLine);
+
+    document.querySelectorAll("p")[1].firstChild!.textContent = "Changed";
+
+    await virtual.perform(virtual.commands.readLine);
+
+    expect(await virtual.lastSpokenPhrase()).toBe("Second line");
+  });
+});
@@ -0,0 +1,147 @@
+import { virtual } from "../../src/index.js";
+
+describe("Scrolling to load more content", () => {
+  let scrollIntoView: jest.Mock;
+
+  const appendItem = () => {
+    const list = document.querySelector("ul")!;
+    const item = document.createElement("li");
+
+    item.textContent = `Item ${list.children.length + 1}`;
+    list.appendChild(item);
+  };
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <ul aria-label="Results">
+        <li>Item 1</li>
+        <li>Item 2</li>
+      </ul>
+    `;
+
+    scrollIntoView = jest.fn(() => {
+      if (document.querySelector("ul")!.children.length < 3) {
+        setTimeout(appendItem, 10);
+      }
+    });
+
+    Element.prototype.scrollIntoView = scrollIntoView;
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+    delete (Element.prototype as Partial<Element>).scrollIntoView;
+  });
+
+  it("should wait for items loaded by scrolling the last item into view", async () => {
+    await virtual.start({
+      container: document.body,
+      scrollToLoadTimeout: 100,
+    });
+
+    for (let i = 0; i < 9; i++) {
+      await virtual.next();
+    }
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "list, Results",
+      "listitem, level 1, position 1, set size 2",
+      "Item 1",
+      "end of listitem, level 1, position 1, set size 2",
+      "listitem, level 1, position 2, set size 2",
+      "Item 2",
+      "end of listitem, level 1, position 2, set size 3",
+      "listitem, level 1, position 3, set size 3",
+      "Item 3",
+    ]);
+    expect(scrollIntoView).toHaveBeenCalledTimes(1);
+  });
+
+  it("should move past the end once no more items load within the timeout", async () => {
+    await virtual.start({
+      container: document.body,
+      scrollToLoadTimeout: 50,
+    });
+
+    for (let i = 0; i < 11; i++) {
+      await virtual.next();
+    }
+
+    expect((await virtual.spokenPhraseLog()).slice(-3)).toEqual([
+      "Item 3",
+      "end of listitem, level 1, position 3, set size 3",
+      "end of list, Results",
+    ]);
+    expect(scrollIntoView).toHaveBeenCalledTimes(2);
+  });
+
+  it("should wait for content loaded by scrolling the end of the page into view before wrapping", async () => {
+    document.body.innerHTML = "<p>Page 1</p>";
+    scrollIntoView.mockImplementation(() => {
+      if (document.querySelectorAll("p").length < 2) {
+        setTimeout(() => {
+          document.body.insertAdjacentHTML("beforeend", "<p>Page 2</p>");
+        }, 10);
+      }
+    });
+
+    await virtual.start({
+      container: document.body,
+      scrollToLoadTimeout: 100,
+    });
+
+    for (let i = 0; i < 6; i++) {
+      await virtual.next();
+    }
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "paragraph",
+      "Page 1",
+      "end of paragraph",
+      "paragraph",
+      "Page 2",
+      "end of paragraph",
+    ]);
+  });
+
+  it("should stop waiting for items to load when stopped", async () => {
+    const scrolled = new Promise<void>((resolve) => {
+      scrollIntoView.mockImplementation(() => resolve());
+    });
+
+    await virtual.start({
+      container: document.body,
+      scrollToLoadTimeout: 60000,
+    });
+
+    for (let i = 0; i < 6; i++) {
+      await virtual.next();
+    }
+
+    const next = virtual.next();
+
+    await scrolled;
+    await virtual.stop();
+
+    await expect(next).resolves.toBeUndefined();
+    expect(scrollIntoView).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not scroll by default", async () => {
+    await virtual.start({ container: document.body });
+
+    for (let i = 0; i < 8; i++) {
+      await virtual.next();
+    }
+
+    expect((await virtual.spokenPhraseLog()).slice(-3)).toEqual([
+      "Item 2",
+      "end of listitem, level 1, position 2, set size 2",
+      "end of list, Results",
+    ]);
+    expect(scrollIntoView).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,104 @@
+import { virtual } from "../../src/index.js";
+import { waitFor } from "@testing-library/dom";
+
+const tick = () => new Promise((resolve) => setTimeout(resolve));
+
+function showToast(message: string) {
+  document.body.insertAdjacentHTML(
+    "beforeend",
+    `<div id="toast" role="status">${message}</div>`
+  );
+}
+
+describe("Strict Live Regions", () => {
+  beforeEach(() => {
+    document.body.innerHTML = "<main><p>Content</p></main>";
+  });
+
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should not announce a live region added with its content in realistic profiles", async () => {
+    const handleDiagnostic = jest.fn();
+
+    await virtual.start({ container: document.body, profile: "nvda" });
+    virtual.on("diagnostic", handleDiagnostic);
+
+    showToast("Saved");
+    await tick();
+
+    expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+    expect(await virtual.diagnosticLog()).toEqual([
+      {
+        code: "live-region-added-with-content",
+        cssPath: "#toast",
+        message:
+          "The live region was added to the page with its content already inside, which screen readers do not announce. Add the live region to the page before updating its content.",
+        node: document.querySelector("#toast"),
+      },
+    ]);
+    expect(handleDiagnostic).toHaveBeenCalledTimes(1);
+
+    virtual.off("diagnostic", handleDiagnostic);
+  });
+
+  it("should announce changes to a live region added before its content in realistic profiles", async () => {
+    await virtual.start({ container: document.body, profile: "nvda" });
+
+    showToast("");
+    await tick();
+
+    document.querySelector("#toast")!.textContent = "Saved";
+
+    await waitFor(async () =>
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "polite: Saved",
+      ])
+    );
+    expect(await virtual.diagnosticLog()).toEqual([]);
+  });
+
+  it("should not announce a live region added with its content with the generic profile", async () => {
+    await virtual.start({ container: document.body });
+
+    showToast("Saved");
+    await tick();
+
+    expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+    expect(await virtual.diagnosticLog()).toEqual([]);
+  });
+
+  it("should allow strict live regions to be enabled for the generic profile", async () => {
+    await virtual.start({
+      container: document.body,
+      strictLiveRegions: true,
+    });
+
+    showToast("Saved");
+    await tick();
+
+    expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+    expect(await virtual.diagnosticLog()).toHaveLength(1);
+  });
+
+  it("should allow strict live regions to be disabled for realistic profiles", async () => {
+    await virtual.start({
+      container: document.body,
+      profile: "nvda",
+      strictLiveRegions: false,
+    });
+
+    showToast("");
+    document.querySelector("#toast")!.textContent = "Saved";
+
+    await waitFor(async () =>
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "polite: Saved",
+      ])
+    );
+  });
+});
@@ -0,0 +1,415 @@
+import { virtual } from "../../src/index.js";
+
+describe("Table Navigation", () => {
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  describe("moveToNextTable / moveToPreviousTable", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <table aria-label="First">
+          <tr><td>1</td></tr>
+        </table>
+        <div role="grid" aria-label="Second">
+          <div role="row"><div role="gridcell">2</div></div>
+        </div>
+        <div role="treegrid" aria-label="Third">
+          <div role="row"><div role="gridcell">3</div></div>
+        </div>
+      `;
+
+      await virtual.start({ container: document.body });
+    });
+
+    it("should move between elements with any table role", async () => {
+      await virtual.perform(virtual.commands.moveToNextTable);
+      await virtual.perform(virtual.commands.moveToNextTable);
+      await virtual.perform(virtual.commands.moveToNextTable);
+      await virtual.perform(virtual.commands.moveToPreviousTable);
+      await virtual.perform(virtual.commands.moveToPreviousTable);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, First",
+        "grid, Second",
+        "treegrid, Third",
+        "grid, Second",
+        "table, First",
+      ]);
+    });
+  });
+
+  describe("when moving between cells", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <table>
+          <caption>Fruit Sales</caption>
+          <thead>
+            <tr><td></td><th scope="col">Q1</th><th scope="col">Q2</th></tr>
+          </thead>
+          <tbody>
+            <tr><th scope="row">Apples</th><td>1</td><td>2</td></tr>
+            <tr><th scope="row">Pears</th><td>3</td><td><a href="#">4</a></td></tr>
+          </tbody>
+        </table>
+      `;
+
+      await virtual.start({ container: document.body });
+      await virtual.perform(virtual.commands.moveToNextTable);
+    });
+
+    it("should move into the first cell when the cursor is on the table", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, Fruit Sales",
+        "row 1, column 1, cell",
+      ]);
+    });
+
+    it("should move up, down, left and right announcing the headers and coordinates", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToNextTableRow);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToNextTableRow);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToPreviousTableRow);
+      await virtual.perform(virtual.commands.moveToPreviousTableColumn);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, Fruit Sales",
+        "row 1, column 1, cell",
+        "row 2, column 1, rowheader, Apples",
+        "row 2, Apples, column 2, Q1, cell, 1",
+        "row 3, Pears, column 2, Q1, cell, 3",
+        "row 3, Pears, column 3, Q2, cell, 4",
+        "row 2, Apples, column 3, Q2, cell, 2",
+        "row 2, Apples, column 2, Q1, cell, 1",
+      ]);
+    });
+
+    it("should not move or announce anything at the edges of the table", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToPreviousTableColumn);
+      await virtual.perform(virtual.commands.moveToPreviousTableRow);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, Fruit Sales",
+        "row 1, column 1, cell",
+      ]);
+    });
+
+    it("should navigate from content nested inside a cell", async () => {
+      while ((await virtual.lastSpokenPhrase()) !== "link, 4") {
+        await virtual.next();
+      }
+
+      await virtual.perform(virtual.commands.moveToPreviousTableColumn);
+
+      expect(await virtual.lastSpokenPhrase()).toBe(
+        "row 3, Pears, column 2, Q1, cell, 3"
+      );
+    });
+
+    it("should move to the first and last cells of the row and column", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToLastTableCellInRow);
+      await virtual.perform(virtual.commands.moveToLastTableCellInColumn);
+      await virtual.perform(virtual.commands.moveToFirstTableCellInRow);
+      await virtual.perform(virtual.commands.moveToFirstTableCellInColumn);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, Fruit Sales",
+        "row 1, column 1, cell",
+        "row 1, column 3, columnheader, Q2",
+        "row 3, Pears, column 3, Q2, cell, 4",
+        "row 3, column 1, rowheader, Pears",
+        "row 1, column 1, cell",
+      ]);
+    });
+
+    it("should read the current row and column without moving", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToNextTableRow);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.readTableRow);
+      await virtual.perform(virtual.commands.readTableColumn);
+      await virtual.next();
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, Fruit Sales",
+        "row 1, column 1, cell",
+        "row 2, column 1, rowheader, Apples",
+        "row 2, Apples, column 2, Q1, cell, 1",
+        "Apples, 1, 2",
+        "Q1, 1, 3",
+        "cell, 2",
+      ]);
+    });
+
+    it("should not read anything when the cursor is not in a cell", async () => {
+      await virtual.perform(virtual.commands.readTableRow);
+      await virtual.perform(virtual.commands.readTableColumn);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, Fruit Sales",
+      ]);
+    });
+
+    it("should not move past the last row or column of the table", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToLastTableCellInColumn);
+      await virtual.perform(virtual.commands.moveToLastTableCellInRow);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToNextTableRow);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, Fruit Sales",
+        "row 1, column 1, cell",
+        "row 3, column 1, rowheader, Pears",
+        "row 3, Pears, column 3, Q2, cell, 4",
+      ]);
+    });
+
+    it("should skip empty cells when reading a row", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.readTableRow);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, Fruit Sales",
+        "row 1, column 1, cell",
+        "Q1, Q2",
+      ]);
+    });
+
+    it("should not move when the current cell has changed since it was announced", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToNextTableRow);
+
+      document.querySelector("tbody th")!.textContent = "Oranges";
+
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.readTableRow);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, Fruit Sales",
+        "row 1, column 1, cell",
+        "row 2, column 1, rowheader, Apples",
+      ]);
+    });
+  });
+
+  describe("when the table has no header cells", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <table aria-label="Scores">
+          <tr><td colspan="0">1</td><td colspan="two">2</td></tr>
+          <tr><td></td><td></td></tr>
+        </table>
+      `;
+
+      await virtual.start({ container: document.body });
+      await virtual.perform(virtual.commands.moveToNextTable);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+    });
+
+    it("should announce the coordinates without headers, ignoring invalid spans", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToNextTableRow);
+      await virtual.perform(virtual.commands.readTableRow);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table, Scores",
+        "row 1, column 1, cell, 1, column span 0",
+        "row 1, column 2, cell, 2, column span two",
+        "row 2, column 2, cell",
+      ]);
+    });
+  });
+
+  describe("when tables are nested", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <div role="grid" aria-label="Outer">
+          <div role="row">
+            <div role="gridcell">A</div>
+            <div role="grid" aria-label="Row inner">
+              <div role="row"><div role="gridcell">X</div></div>
+            </div>
+            <div role="gridcell">B</div>
+          </div>
+          <div role="grid" aria-label="Inner">
+            <div role="row"><div role="gridcell">Y</div></div>
+          </div>
+          <div role="row">
+            <div><div role="gridcell">C</div></div>
+          </div>
+        </div>
+      `;
+
+      await virtual.start({ container: document.body });
+      await virtual.perform(virtual.commands.moveToNextTable);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+    });
+
+    it("should navigate the cells of each table separately", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToFirstTableCellInRow);
+      await virtual.perform(virtual.commands.moveToNextTableRow);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "grid, Outer",
+        "row 1, column 1, gridcell, A",
+        "row 1, column 2, gridcell, B",
+        "row 1, column 1, gridcell, A",
+        "row 2, column 1, gridcell, C",
+      ]);
+    });
+  });
+
+  describe("when cells span multiple rows and columns", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <table>
+          <tr><th>A</th><th>B</th><th>C</th></tr>
+          <tr><td rowspan="2">1</td><td colspan="2">2</td></tr>
+          <tr><td>3</td><td>4</td></tr>
+        </table>
+      `;
+
+      await virtual.start({ container: document.body });
+      await virtual.perform(virtual.commands.moveToNextTable);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+    });
+
+    it("should place cells in the slots they span", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableRow);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToNextTableRow);
+      await virtual.perform(virtual.commands.moveToPreviousTableColumn);
+      await virtual.perform(virtual.commands.moveToNextTableRow);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "document",
+        "table",
+        "row 1, column 1, columnheader, A",
+        "row 2, column 1, A, cell, 1, row span 2",
+        "row 2, column 2, B, C, cell, 2, column span 2",
+        "row 3, column 2, B, cell, 3",
+        "row 2, column 1, A, cell, 1, row span 2",
+      ]);
+    });
+  });
+
+  describe("when cells reference their headers", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <table>
+          <tr><th id="name">Name</th><th id="price">Price</th></tr>
+          <tr><th id="tea" scope="row">Tea</th><td headers="tea price">£2</td></tr>
+        </table>
+      `;
+
+      await virtual.start({ container: document.body });
+      await virtual.perform(virtual.commands.moveToNextTable);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+    });
+
+    it("should announce the headers referenced by the headers attribute", async () => {
+      await virtual.perform(virtual.commands.moveToLastTableCellInColumn);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+
+      expect(await virtual.lastSpokenPhrase()).toBe(
+        "row 2, Tea, column 2, Price, cell, £2"
+      );
+    });
+  });
+
+  describe("when cells reference headers outside of the table rows", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <table>
+          <caption id="caption">Prices</caption>
+          <tr><td headers="caption">£2</td></tr>
+        </table>
+      `;
+
+      await virtual.start({ container: document.querySelector("table")! });
+    });
+
+    it("should announce the referenced headers when the table is the container", async () => {
+      await virtual.perform(virtual.commands.readTableRow);
+      await virtual.next();
+      await virtual.next();
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+
+      expect(await virtual.spokenPhraseLog()).toEqual([
+        "table, Prices",
+        "caption, Prices",
+        "rowgroup",
+        "row 1, column 1, Prices, cell, £2",
+      ]);
+    });
+  });
+
+  describe("when the grid provides explicit indexes", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = `
+        <div role="grid" aria-label="Messages" aria-rowcount="100">
+          <div role="row" aria-rowindex="41">
+            <div role="gridcell">Hello</div>
+            <div role="gridcell" aria-colindex="5">World</div>
+          </div>
+        </div>
+      `;
+
+      await virtual.start({ container: document.body });
+      await virtual.perform(virtual.commands.moveToNextTable);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+    });
+
+    it("should announce the author provided coordinates", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+
+      expect(await virtual.lastSpokenPhrase()).toBe(
+        "row 41, column 5, gridcell, World, column index 5"
+      );
+    });
+  });
+
+  describe("when the cursor is not in a table", () => {
+    beforeEach(async () => {
+      document.body.innerHTML = "<p>No tables here</p>";
+
+      await virtual.start({ container: document.body });
+    });
+
+    it("should gracefully handle table commands", async () => {
+      await virtual.perform(virtual.commands.moveToNextTableRow);
+      await virtual.perform(virtual.commands.moveToPreviousTableRow);
+      await virtual.perform(virtual.commands.moveToNextTableColumn);
+      await virtual.perform(virtual.commands.moveToPreviousTableColumn);
+      await virtual.perform(virtual.commands.moveToFirstTableCellInRow);
+      await virtual.perform(virtual.commands.moveToLastTableCellInRow);
+      await virtual.perform(virtual.commands.moveToFirstTableCellInColumn);
+      await virtual.perform(virtual.commands.moveToLastTableCellInColumn);
+      await virtual.perform(virtual.commands.readTableRow);
+      await virtual.perform(virtual.commands.readTableColumn);
+
+      expect(await virtual.spokenPhraseLog()).toEqual(["document"]);
+    });
+  });
+});
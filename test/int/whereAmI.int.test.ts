@@ -0,0 +1,137 @@
+import { virtual } from "../../src/index.js";
+
+describe("Where Am I", () => {
+  afterEach(async () => {
+    await virtual.stop();
+    document.body.innerHTML = "";
+  });
+
+  it("should announce the landmark and list around the cursor along with the position in the list", async () => {
+    document.body.innerHTML = `
+      <nav aria-label="Primary">
+        <ul>
+          <li><a href="/one">One</a></li>
+          <li><a href="/two">Two</a></li>
+          <li><a href="/three">Three</a></li>
+        </ul>
+      </nav>
+    `;
+
+    await virtual.start({ container: document.body });
+    await virtual.perform(virtual.commands.moveToNextLink);
+    await virtual.perform(virtual.commands.moveToNextLink);
+    await virtual.perform(virtual.commands.whereAmI);
+
+    expect(await virtual.lastSpokenPhrase()).toBe(
+      "inside navigation, Primary, list, 2 of 3"
+    );
+    expect(await virtual.itemText()).toBe("Two");
+  });
+
+  it("should announce the row and column of a table cell", async () => {
+    document.body.innerHTML = `
+      <main>
+        <table aria-label="Prices">
+          <tr><th>Item</th><th>Price</th></tr>
+          <tr><td>Tea</td><td>2</td></tr>
+        </table>
+      </main>
+    `;
+
+    await virtual.start({ container: document.body });
+
+    while ((await virtual.itemText()) !== "2") {
+      await virtual.next();
+    }
+
+    await virtual.perform(virtual.commands.whereAmI);
+
+    expect(await virtual.lastSpokenPhrase()).toBe(
+      "inside main, table, Prices, row 2 of 2, column 2 of 2"
+    );
+  });
+
+  it("should announce dialogs and groups", async () => {
+    document.body.innerHTML = `
+      <div role="dialog" aria-label="Settings">
+        <div role="group" aria-label="Sound">
+          <button>Mute</button>
+        </div>
+      </div>
+    `;
+
+    await virtual.start({ container: document.body });
+    await virtual.perform(virtual.commands.moveToNext, { role: "button" });
+    await virtual.perform(virtual.commands.whereAmI);
+
+    expect(await virtual.lastSpokenPhrase()).toBe(
+      "inside dialog, Settings, group, Sound"
+    );
+  });
+
+  it("should announce the document when there are no containers", async () => {
+    document.body.innerHTML = "<p>Text</p>";
+
+    await virtual.start({ container: document.body });
+    await virtual.next();
+    await virtual.perform(virtual.commands.whereAmI);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "paragraph",
+      "inside document",
+    ]);
+  });
+  it("should announce the document when the cursor is on the document itself", async () => {
+    document.body.innerHTML = "<p>Text</p>";
+
+    await virtual.start({ container: document.body });
+    await virtual.perform(virtual.commands.whereAmI);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "inside document",
+    ]);
+    expect(virtual.activeNode).toBe(document.body);
+  });
+
+  it.each([
+    ["jaws", "inside Primary navigation, list, 1 of 2"],
+    ["nvda", "inside navigation Primary, list"],
+  ] as const)(
+    "should announce the containers with the %s wording",
+    async (profile, spokenPhrase) => {
+      document.body.innerHTML = `
+        <nav aria-label="Primary">
+          <ul>
+            <li><a href="/one">One</a></li>
+            <li><a href="/two">Two</a></li>
+          </ul>
+        </nav>
+      `;
+
+      await virtual.start({ container: document.body, profile });
+      await virtual.perform(virtual.commands.moveToNextLink);
+      await virtual.perform(virtual.commands.whereAmI);
+
+      expect(await virtual.lastSpokenPhrase()).toBe(spokenPhrase);
+    }
+  );
+
+  it("should not announce anything when the current item has changed since it was announced", async () => {
+    document.body.innerHTML = "<main><h1>Title</h1></main>";
+
+    await virtual.start({ container: document.body });
+    await virtual.perform(virtual.commands.moveToNextHeading);
+
+    document.querySelector("h1")!.textContent = "New title";
+
+    await virtual.perform(virtual.commands.whereAmI);
+
+    expect(await virtual.spokenPhraseLog()).toEqual([
+      "document",
+      "main",
+      "heading, Title, level 1",
+    ]);
+  });
+});
@@ -15,3 +15,20 @@ export function setupBasicPage() {
   <footer>Footer</footer>
   `;
 }
+
+export function setupProfilePage() {
+  document.body.innerHTML = `
+  <nav aria-label="Primary">
+    <ul>
+      <li><a href="#home">Home</a></li>
+    </ul>
+  </nav>
+  <main>
+    <h1>Title</h1>
+    <div onclick="void 0">Expand</div>
+    <label>Name <input type="text" /></label>
+    <input type="checkbox" aria-label="Subscribe" />
+    <button>Submit</button>
+  </main>
+  `;
+}